@@ -2,20 +2,91 @@ import * as React from "react"
 
 import { cn } from "@/lib/utils"
 
+/**
+ * 固定した列のセルの位置を、同じ行のより外側に固定したセルの幅から計算する
+ */
+const updatePinnedCellOffsets = (table: HTMLTableElement) => {
+  Array.from(table.rows).forEach((row) => {
+    const cells = Array.from(row.cells)
+
+    let left = 0
+    cells.forEach((cell) => {
+      if (cell.dataset.pinned !== "left") {
+        cell.style.left = ""
+        return
+      }
+      cell.style.left = `${left}px`
+      left += cell.offsetWidth
+    })
+
+    let right = 0
+    cells.slice().reverse().forEach((cell) => {
+      if (cell.dataset.pinned !== "right") {
+        cell.style.right = ""
+        return
+      }
+      cell.style.right = `${right}px`
+      right += cell.offsetWidth
+    })
+  })
+}
+
 const Table = React.forwardRef<
   HTMLTableElement,
   React.HTMLAttributes<HTMLTableElement>
->(({ className, ...props }, ref) => (
-  <div className="relative w-full overflow-auto">
-    <table
-      ref={ref}
-      className={cn("w-full caption-bottom text-sm", className)}
-      {...props}
-    />
-  </div>
-))
+>(({ className, ...props }, ref) => {
+  const tableRef = React.useRef<HTMLTableElement>(null)
+  React.useImperativeHandle(ref, () => tableRef.current as HTMLTableElement)
+
+  // 行や固定する列の変更、テーブルのサイズの変更のたびに固定した列の位置を計算し直す
+  React.useEffect(() => {
+    const table = tableRef.current
+    if (!table) return
+
+    const update = () => updatePinnedCellOffsets(table)
+    update()
+
+    const resizeObserver = new ResizeObserver(update)
+    resizeObserver.observe(table)
+    const mutationObserver = new MutationObserver(update)
+    mutationObserver.observe(table, {
+      childList: true,
+      subtree: true,
+      attributeFilter: ["data-pinned"],
+    })
+
+    return () => {
+      resizeObserver.disconnect()
+      mutationObserver.disconnect()
+    }
+  }, [])
+
+  return (
+    <div className="relative w-full overflow-auto">
+      <table
+        ref={tableRef}
+        className={cn("w-full caption-bottom text-sm", className)}
+        {...props}
+      />
+    </div>
+  )
+})
 Table.displayName = "Table"
 
+/**
+ * セルを固定する位置（Tableが固定したセルの位置を計算する）
+ */
+type TableCellPinning = {
+  pinned?: "left" | "right" | null
+}
+
+/**
+ * 固定したセルのクラス
+ * 下をスクロールするセルが透けないように不透明な背景にしたうえで、行のホバーや選択の背景（TableRow）を重ねる
+ */
+const pinnedCellClassName =
+  "sticky z-10 bg-background transition-colors [tr:hover>&]:bg-[linear-gradient(hsl(var(--muted)/0.5),hsl(var(--muted)/0.5))] [tr[data-state=selected]>&]:bg-muted"
+
 const TableHeader = React.forwardRef<
   HTMLTableSectionElement,
   React.HTMLAttributes<HTMLTableSectionElement>
@@ -66,29 +137,118 @@ const TableRow = React.forwardRef<
 ))
 TableRow.displayName = "TableRow"
 
+/**
+ * 列の幅の変更（右端のハンドルをドラッグして変更し、ダブルクリックで初期値に戻す）
+ */
+type TableHeadResizing = {
+  width?: number
+  minWidth?: number
+  maxWidth?: number
+  onWidthChange?: (width: number) => void
+  onWidthReset?: () => void
+}
+
 const TableHead = React.forwardRef<
   HTMLTableCellElement,
-  React.ThHTMLAttributes<HTMLTableCellElement>
->(({ className, ...props }, ref) => (
-  <th
-    ref={ref}
-    className={cn(
-      "h-10 px-2 text-left align-middle font-medium text-muted-foreground [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px]",
-      className
-    )}
-    {...props}
-  />
-))
+  React.ThHTMLAttributes<HTMLTableCellElement> &
+    TableCellPinning &
+    TableHeadResizing
+>(
+  (
+    {
+      className,
+      style,
+      pinned,
+      width,
+      minWidth,
+      maxWidth,
+      onWidthChange,
+      onWidthReset,
+      children,
+      ...props
+    },
+    ref
+  ) => {
+    const headRef = React.useRef<HTMLTableCellElement>(null)
+    React.useImperativeHandle(ref, () => headRef.current as HTMLTableCellElement)
+
+    // ドラッグ中の幅（ドラッグ中は表示のみ変更し、離したときにonWidthChangeで確定する）
+    const [draggingWidth, setDraggingWidth] = React.useState<number | null>(
+      null
+    )
+
+    const onPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+      const head = headRef.current
+      if (!head || !onWidthChange) return
+      event.preventDefault()
+
+      const handle = event.currentTarget
+      handle.setPointerCapture(event.pointerId)
+      const startX = event.clientX
+      const startWidth = head.offsetWidth
+      let latestWidth = startWidth
+
+      const onPointerMove = (moveEvent: PointerEvent) => {
+        latestWidth = Math.min(
+          Math.max(startWidth + moveEvent.clientX - startX, minWidth ?? 0),
+          maxWidth ?? Infinity
+        )
+        setDraggingWidth(latestWidth)
+      }
+      const onPointerEnd = (endEvent: PointerEvent) => {
+        handle.removeEventListener("pointermove", onPointerMove)
+        handle.removeEventListener("pointerup", onPointerEnd)
+        handle.removeEventListener("pointercancel", onPointerEnd)
+        setDraggingWidth(null)
+        if (endEvent.type === "pointerup") onWidthChange(latestWidth)
+      }
+      handle.addEventListener("pointermove", onPointerMove)
+      handle.addEventListener("pointerup", onPointerEnd)
+      handle.addEventListener("pointercancel", onPointerEnd)
+    }
+
+    return (
+      <th
+        ref={headRef}
+        data-pinned={pinned ?? undefined}
+        style={{ width: draggingWidth ?? width, minWidth, maxWidth, ...style }}
+        className={cn(
+          "h-10 px-2 text-left align-middle font-medium text-muted-foreground [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px]",
+          onWidthChange && "relative",
+          pinned && pinnedCellClassName,
+          className
+        )}
+        {...props}
+      >
+        {children}
+        {onWidthChange && (
+          <div
+            role="separator"
+            aria-orientation="vertical"
+            onPointerDown={onPointerDown}
+            onDoubleClick={onWidthReset}
+            className={cn(
+              "absolute right-0 top-0 h-full w-1 cursor-col-resize touch-none select-none hover:bg-border",
+              draggingWidth !== null && "bg-border"
+            )}
+          />
+        )}
+      </th>
+    )
+  }
+)
 TableHead.displayName = "TableHead"
 
 const TableCell = React.forwardRef<
   HTMLTableCellElement,
-  React.TdHTMLAttributes<HTMLTableCellElement>
->(({ className, ...props }, ref) => (
+  React.TdHTMLAttributes<HTMLTableCellElement> & TableCellPinning
+>(({ className, pinned, ...props }, ref) => (
   <td
     ref={ref}
+    data-pinned={pinned ?? undefined}
     className={cn(
       "p-2 align-middle [&:has([role=checkbox])]:pr-0 [&>[role=checkbox]]:translate-y-[2px]",
+      pinned && pinnedCellClassName,
       className
     )}
     {...props}
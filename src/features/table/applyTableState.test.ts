@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import { applyTableState } from "./applyTableState";
+import { defineTableColumnFilter } from "./filterUtils";
+import { ColumnDefinition, ColumnFilterDefinition, TableState } from "./types";
+
+type User = { name: string; age: number };
+
+describe("applyTableState", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      compare: (a: User, b: User) => a.name.localeCompare(b.name),
+      getSearchText: (row: User) => row.name,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<{ min: number }, { min: number }, User>({
+        encodeForUrl: undefined,
+        decodeFromUrl: undefined,
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+        predicate: (row, filter) => row.age >= filter.min,
+      }),
+      compare: (a: User, b: User) => a.age - b.age,
+    },
+  ] as const satisfies ColumnDefinition<
+    string,
+    ColumnFilterDefinition | null,
+    User
+  >[];
+
+  const rows: User[] = [
+    { name: "Carol", age: 30 },
+    { name: "alice", age: 20 },
+    { name: "Bob", age: 30 },
+    { name: "Dave", age: 40 },
+  ];
+
+  const defaultState: TableState<typeof columnDefinitions> = {
+    keywordSearch: null,
+    sort: [],
+    columnVisibility: ["name", "age"],
+    columnOrder: ["name", "age"],
+    pinning: { left: [], right: [] },
+    columnWidths: {},
+    selection: { rowIds: [], allMatching: false },
+    expandedRowIds: [],
+    pagination: { page: 1, pageSize: 10 },
+    filter: { age: null },
+  };
+
+  it("状態が空の場合は元の順序のまま返す", () => {
+    expect(applyTableState(rows, defaultState, columnDefinitions)).toEqual({
+      rows,
+      totalCount: 4,
+    });
+  });
+
+  it("キーワードで大文字・小文字を区別せずに検索する", () => {
+    const result = applyTableState(
+      rows,
+      { ...defaultState, keywordSearch: "A" },
+      columnDefinitions
+    );
+    expect(result.rows.map((row) => row.name)).toEqual([
+      "Carol",
+      "alice",
+      "Dave",
+    ]);
+    expect(result.totalCount).toBe(3);
+  });
+
+  it("フィルターのpredicateに一致する行のみを返す", () => {
+    const result = applyTableState(
+      rows,
+      { ...defaultState, filter: { age: { min: 30 } } },
+      columnDefinitions
+    );
+    expect(result.rows.map((row) => row.name)).toEqual([
+      "Carol",
+      "Bob",
+      "Dave",
+    ]);
+  });
+
+  it("複数のソート条件を優先度の順に適用する", () => {
+    const result = applyTableState(
+      rows,
+      {
+        ...defaultState,
+        sort: [
+          { sortBy: "age", sortOrder: "desc" },
+          { sortBy: "name", sortOrder: "asc" },
+        ],
+      },
+      columnDefinitions
+    );
+    expect(result.rows.map((row) => row.name)).toEqual([
+      "Dave",
+      "Bob",
+      "Carol",
+      "alice",
+    ]);
+  });
+
+  it("元の行の配列を変更しない", () => {
+    const copied = [...rows];
+    applyTableState(
+      rows,
+      { ...defaultState, sort: [{ sortBy: "name", sortOrder: "desc" }] },
+      columnDefinitions
+    );
+    expect(rows).toEqual(copied);
+  });
+
+  it("ページ番号に対応する行を返し、全件数は絞り込み後の件数になる", () => {
+    const result = applyTableState(
+      rows,
+      { ...defaultState, pagination: { page: 2, pageSize: 3 } },
+      columnDefinitions
+    );
+    expect(result).toEqual({
+      rows: [{ name: "Dave", age: 40 }],
+      totalCount: 4,
+    });
+  });
+
+  it("カーソルによるページネーションでは次のページのカーソルを返す", () => {
+    const state: TableState<typeof columnDefinitions, "cursor"> = {
+      ...defaultState,
+      pagination: { cursor: null, cursorStack: [], pageSize: 3 },
+    };
+
+    const firstPage = applyTableState(rows, state, columnDefinitions);
+    expect(firstPage.rows).toHaveLength(3);
+    expect(firstPage.nextCursor).toBe("3");
+
+    const lastPage = applyTableState(
+      rows,
+      {
+        ...state,
+        pagination: { cursor: "3", cursorStack: [], pageSize: 3 },
+      },
+      columnDefinitions
+    );
+    expect(lastPage.rows).toEqual([{ name: "Dave", age: 40 }]);
+    expect(lastPage.nextCursor).toBeNull();
+  });
+});
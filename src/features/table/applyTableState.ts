@@ -0,0 +1,102 @@
+import { getPaginationInfo, isCursorPagination } from "./pagination";
+import {
+  ColumnDefinition,
+  ColumnFilterDefinition,
+  PaginationMode,
+  PaginationModeOf,
+  TableDataResult,
+  TableState,
+} from "./types";
+
+/**
+ * テーブルの状態を行データに適用する
+ *
+ * 小さなデータセットをクライアント上で検索・フィルター・ソート・ページングするためのエンジンです。
+ * キーワード検索はカラム定義の`getSearchText`、フィルターは`filter.predicate`、
+ * ソートは`compare`を使用し、定義されていないカラムは無視されます。
+ * カーソルによるページネーションでは、行のオフセットをカーソルとして使用します。
+ *
+ * @param rows 行データ
+ * @param state テーブルの状態
+ * @param columnDefinitions カラム定義配列
+ * @returns 現在のページの行と全件数
+ */
+export const applyTableState = <
+  Row,
+  Columns extends readonly ColumnDefinition<
+    string,
+    ColumnFilterDefinition | null,
+    Row
+  >[],
+  State extends TableState<Columns, PaginationMode>
+>(
+  rows: readonly Row[],
+  state: State,
+  columnDefinitions: Columns
+): TableDataResult<Row, PaginationModeOf<State["pagination"]>> => {
+  // キーワード検索（大文字・小文字を区別しない）
+  const keyword = state.keywordSearch?.toLowerCase() ?? "";
+  const searchTextGetters = columnDefinitions.flatMap((column) =>
+    column.getSearchText ? [column.getSearchText] : []
+  );
+  const searchedRows =
+    keyword === "" || searchTextGetters.length === 0
+      ? rows
+      : rows.filter((row) =>
+          searchTextGetters.some((getSearchText) =>
+            getSearchText(row).toLowerCase().includes(keyword)
+          )
+        );
+
+  // フィルター
+  const predicates = columnDefinitions.flatMap((column) => {
+    const filter: unknown =
+      state.filter[column.key as keyof typeof state.filter];
+    const predicate = column.filter?.predicate;
+    return filter === null || filter === undefined || !predicate
+      ? []
+      : [(row: Row) => predicate(row, filter)];
+  });
+  const filteredRows = searchedRows.filter((row) =>
+    predicates.every((predicate) => predicate(row))
+  );
+
+  // ソート（優先度の高い順に比較し、すべて等しい場合は元の順序を保つ）
+  const comparators = state.sort.flatMap(({ sortBy, sortOrder }) => {
+    const compare = columnDefinitions.find(
+      (column) => column.key === sortBy
+    )?.compare;
+    if (!compare) return [];
+    return [sortOrder === "asc" ? compare : (a: Row, b: Row) => compare(b, a)];
+  });
+  const sortedRows =
+    comparators.length === 0
+      ? filteredRows
+      : [...filteredRows].sort((a, b) => {
+          for (const compare of comparators) {
+            const result = compare(a, b);
+            if (result !== 0) return result;
+          }
+          return 0;
+        });
+
+  // ページネーション
+  const totalCount = sortedRows.length;
+  const pagination = state.pagination;
+
+  if (isCursorPagination(pagination)) {
+    const start = Math.min(Number(pagination.cursor ?? 0) || 0, totalCount);
+    const end = start + pagination.pageSize;
+    return {
+      rows: sortedRows.slice(start, end),
+      totalCount,
+      nextCursor: end < totalCount ? String(end) : null,
+    } as TableDataResult<Row, PaginationModeOf<State["pagination"]>>;
+  }
+
+  const { offset, limit } = getPaginationInfo(pagination);
+  return {
+    rows: sortedRows.slice(offset, offset + limit),
+    totalCount,
+  } as TableDataResult<Row, PaginationModeOf<State["pagination"]>>;
+};
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  getColumnPinSide,
+  getOrderedColumns,
+  getVisibleColumns,
+  moveColumnKey,
+} from "./columnOrder";
+import { ColumnDefinition } from "./types";
+
+describe("moveColumnKey", () => {
+  const columnOrder = ["name", "age", "email"];
+
+  it("カラムを指定した位置に移動する", () => {
+    expect(moveColumnKey(columnOrder, "email", 0)).toEqual([
+      "email",
+      "name",
+      "age",
+    ]);
+    expect(moveColumnKey(columnOrder, "name", 1)).toEqual([
+      "age",
+      "name",
+      "email",
+    ]);
+  });
+
+  it("範囲外の位置は先頭または末尾として扱う", () => {
+    expect(moveColumnKey(columnOrder, "age", -1)).toEqual([
+      "age",
+      "name",
+      "email",
+    ]);
+    expect(moveColumnKey(columnOrder, "age", 10)).toEqual([
+      "name",
+      "email",
+      "age",
+    ]);
+  });
+
+  it("列の順序に含まれないカラムは移動しない", () => {
+    expect(moveColumnKey(columnOrder, "status", 0)).toEqual(columnOrder);
+  });
+});
+
+describe("getVisibleColumns", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      pinnable: true,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      pinnable: true,
+    },
+    {
+      key: "email",
+      renderHeadCell: () => "メールアドレス",
+      sortable: false,
+      initialVisibility: true,
+      filter: null,
+      pinnable: true,
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  it("列の順序に並べたカラム定義を返す", () => {
+    expect(
+      getOrderedColumns(columnDefinitions, {
+        columnOrder: ["email", "name", "age"],
+      }).map((col) => col.key)
+    ).toEqual(["email", "name", "age"]);
+  });
+
+  it("表示する列のみを列の順序に並べて返す", () => {
+    expect(
+      getVisibleColumns(columnDefinitions, {
+        columnVisibility: ["name", "email"],
+        columnOrder: ["email", "age", "name"],
+        pinning: { left: [], right: [] },
+      }).map((col) => col.key)
+    ).toEqual(["email", "name"]);
+  });
+
+  it("固定した列を左右に並べ、右に固定した列は外側から順に右端に並べる", () => {
+    expect(
+      getVisibleColumns(columnDefinitions, {
+        columnVisibility: ["name", "age", "email"],
+        columnOrder: ["name", "age", "email"],
+        pinning: { left: ["email"], right: ["name", "age"] },
+      }).map((col) => col.key)
+    ).toEqual(["email", "age", "name"]);
+  });
+
+  it("表示しない列は固定していても含めない", () => {
+    expect(
+      getVisibleColumns(columnDefinitions, {
+        columnVisibility: ["name", "age"],
+        columnOrder: ["name", "age", "email"],
+        pinning: { left: ["email"], right: [] },
+      }).map((col) => col.key)
+    ).toEqual(["name", "age"]);
+  });
+});
+
+describe("getColumnPinSide", () => {
+  it("列を固定している位置を返す", () => {
+    const state = { pinning: { left: ["name"], right: ["email"] } };
+
+    expect(getColumnPinSide(state, "name")).toBe("left");
+    expect(getColumnPinSide(state, "email")).toBe("right");
+    expect(getColumnPinSide(state, "age")).toBeNull();
+  });
+});
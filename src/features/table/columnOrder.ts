@@ -0,0 +1,90 @@
+import {
+  ColumnDefinition,
+  ColumnPinSide,
+  PaginationMode,
+  TableState,
+} from "./types";
+
+/**
+ * 列の順序の中でカラムを移動する
+ *
+ * @param columnOrder 列の順序
+ * @param columnKey 移動するカラムキー
+ * @param toIndex 移動先の位置（範囲外の場合は先頭または末尾）
+ * @returns 移動後の列の順序（カラムが含まれない場合は変更しない）
+ */
+export const moveColumnKey = <Key extends string>(
+  columnOrder: readonly Key[],
+  columnKey: Key,
+  toIndex: number
+): Key[] => {
+  if (!columnOrder.includes(columnKey)) return [...columnOrder];
+
+  const rest = columnOrder.filter((key) => key !== columnKey);
+  const index = Math.min(Math.max(0, toIndex), rest.length);
+  return [...rest.slice(0, index), columnKey, ...rest.slice(index)];
+};
+
+/**
+ * すべての列のカラム定義を列の順序に並べて取得する
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param state テーブルの状態
+ * @returns 列の順序に並べたカラム定義
+ */
+export const getOrderedColumns = <Columns extends readonly ColumnDefinition[]>(
+  columnDefinitions: Columns,
+  state: Pick<TableState<Columns, PaginationMode>, "columnOrder">
+): Columns[number][] =>
+  state.columnOrder
+    .map((key) => columnDefinitions.find((col) => col.key === key))
+    .filter((col): col is Columns[number] => col !== undefined);
+
+/**
+ * 表示する列のカラム定義を表示する順に並べて取得する
+ *
+ * 左に固定した列、固定していない列（列の順序）、右に固定した列の順に並べます。
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param state テーブルの状態
+ * @returns 表示する順に並べたカラム定義
+ */
+export const getVisibleColumns = <Columns extends readonly ColumnDefinition[]>(
+  columnDefinitions: Columns,
+  state: Pick<
+    TableState<Columns, PaginationMode>,
+    "columnVisibility" | "columnOrder" | "pinning"
+  >
+): Columns[number][] => {
+  const visibleColumns = getOrderedColumns(columnDefinitions, state).filter(
+    (col) => state.columnVisibility.includes(col.key)
+  );
+  const { left, right } = state.pinning as Record<ColumnPinSide, string[]>;
+  const findVisibleColumn = (key: string) =>
+    visibleColumns.find((col) => col.key === key) ?? [];
+
+  return [
+    ...left.flatMap(findVisibleColumn),
+    ...visibleColumns.filter(
+      (col) => !left.includes(col.key) && !right.includes(col.key)
+    ),
+    ...[...right].reverse().flatMap(findVisibleColumn),
+  ];
+};
+
+/**
+ * 列を固定している位置を取得する
+ *
+ * @param state テーブルの状態
+ * @param columnKey カラムキー
+ * @returns 固定している位置（固定していない場合はnull）
+ */
+export const getColumnPinSide = (
+  state: { pinning: Record<ColumnPinSide, readonly string[]> },
+  columnKey: string
+): ColumnPinSide | null => {
+  const { left, right } = state.pinning;
+  if (left.includes(columnKey)) return "left";
+  if (right.includes(columnKey)) return "right";
+  return null;
+};
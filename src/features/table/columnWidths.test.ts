@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampColumnWidth,
+  getColumnWidth,
+  parseColumnWidths,
+} from "./columnWidths";
+import { ColumnDefinition } from "./types";
+
+describe("clampColumnWidth", () => {
+  it("最小値・最大値の範囲に収めて整数に丸める", () => {
+    const column = { minWidth: 80, maxWidth: 200 };
+    expect(clampColumnWidth(column, 120.6)).toBe(121);
+    expect(clampColumnWidth(column, 10)).toBe(80);
+    expect(clampColumnWidth(column, 300)).toBe(200);
+  });
+
+  it("最小値を指定しない場合は40pxを最小値とする", () => {
+    expect(clampColumnWidth({}, 0)).toBe(40);
+    expect(clampColumnWidth({}, 1000)).toBe(1000);
+  });
+});
+
+describe("parseColumnWidths", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      maxWidth: 300,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  it("カラム定義にあるカラムの数値の幅のみを範囲に収めて使用する", () => {
+    expect(
+      parseColumnWidths(columnDefinitions, {
+        name: 500,
+        age: NaN,
+        deleted: 100,
+      })
+    ).toEqual({ name: 300 });
+  });
+
+  it("保存した幅がない場合は空の幅を返す", () => {
+    expect(parseColumnWidths(columnDefinitions)).toEqual({});
+  });
+});
+
+describe("getColumnWidth", () => {
+  it("変更した幅、カラム定義の初期値の順に使用する", () => {
+    const column = { key: "name", defaultWidth: 120 };
+    expect(getColumnWidth(column, { columnWidths: { name: 200 } })).toBe(200);
+    expect(getColumnWidth(column, { columnWidths: {} })).toBe(120);
+    expect(
+      getColumnWidth({ key: "name" }, { columnWidths: {} })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,56 @@
+import { ColumnDefinition, ColumnWidths } from "./types";
+
+/**
+ * 列の幅の最小値のデフォルト値（px）
+ */
+const DEFAULT_MIN_COLUMN_WIDTH = 40;
+
+/**
+ * 列の幅をカラム定義の最小値・最大値の範囲に収める
+ *
+ * @param column カラム定義
+ * @param width 列の幅（px）
+ * @returns 範囲に収めて整数に丸めた列の幅
+ */
+export const clampColumnWidth = (
+  column: Pick<ColumnDefinition, "minWidth" | "maxWidth">,
+  width: number
+): number => {
+  const minWidth = column.minWidth ?? DEFAULT_MIN_COLUMN_WIDTH;
+  const maxWidth = column.maxWidth ?? Infinity;
+  return Math.round(Math.min(Math.max(width, minWidth), maxWidth));
+};
+
+/**
+ * 保存した列の幅から、カラム定義にあるカラムの列の幅を取得する
+ *
+ * 数値でない幅は使用せず、範囲外の幅はカラム定義の範囲に収めます。
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param columnWidths 保存した列の幅
+ * @returns 列の幅
+ */
+export const parseColumnWidths = <Columns extends readonly ColumnDefinition[]>(
+  columnDefinitions: Columns,
+  columnWidths: Partial<Record<string, number>> = {}
+): ColumnWidths<Columns> =>
+  Object.fromEntries(
+    columnDefinitions.flatMap((column) => {
+      const width = columnWidths[column.key];
+      return typeof width === "number" && Number.isFinite(width)
+        ? [[column.key, clampColumnWidth(column, width)]]
+        : [];
+    })
+  ) as ColumnWidths<Columns>;
+
+/**
+ * 列の幅を取得する
+ *
+ * @param column カラム定義
+ * @param state テーブルの状態
+ * @returns 変更した列の幅（未変更の場合はカラム定義の初期値、どちらもない場合はundefined）
+ */
+export const getColumnWidth = (
+  column: Pick<ColumnDefinition, "key" | "defaultWidth">,
+  state: { columnWidths: Partial<Record<string, number>> }
+): number | undefined => state.columnWidths[column.key] ?? column.defaultWidth;
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import { expandCompactParams, packCompactParams } from "./compactParams";
+import { getQueryKeys } from "./parseTableState";
+
+describe("packCompactParams", () => {
+  const queryKeys = getQueryKeys();
+
+  it("テーブルの状態を1つのクエリパラメータにまとめる", () => {
+    const packed = packCompactParams(
+      new URLSearchParams({
+        table_keyword: "田中",
+        table_sort: "age:desc",
+        table_filter_age: "20~30",
+      }),
+      queryKeys
+    );
+
+    expect([...packed.keys()]).toEqual(["table"]);
+    expect(packed.get("table")).toBe("k*.田中*-s*.age:desc*-_age*.20~30");
+  });
+
+  it("状態ごとのクエリパラメータより短いURLにまとめる", () => {
+    const params = new URLSearchParams({
+      table_keyword: "田中",
+      table_sort: "age:desc,name:asc",
+      table_columns: "name,age,email",
+      table_pin_left: "name",
+      table_page: "3",
+      table_page_size: "50",
+      table_filter_age: "20~30",
+      table_filter_status: "active",
+    });
+
+    expect(packCompactParams(params, queryKeys).toString().length).toBeLessThan(
+      params.toString().length
+    );
+  });
+
+  it("テーブルの状態以外のクエリパラメータはそのまま残す", () => {
+    const packed = packCompactParams(
+      new URLSearchParams({
+        tab: "users",
+        table_page: "2",
+        orders_table_page: "3",
+      }),
+      queryKeys
+    );
+
+    expect(packed.get("tab")).toBe("users");
+    expect(packed.get("orders_table_page")).toBe("3");
+    expect(packed.has("table_page")).toBe(false);
+  });
+
+  it("テーブルの状態がない場合はクエリパラメータを追加しない", () => {
+    const packed = packCompactParams(
+      new URLSearchParams({ tab: "users" }),
+      queryKeys
+    );
+
+    expect(packed.toString()).toBe("tab=users");
+  });
+});
+
+describe("expandCompactParams", () => {
+  const queryKeys = getQueryKeys();
+
+  it("まとめたクエリパラメータを展開する", () => {
+    const original = new URLSearchParams({
+      tab: "users",
+      table_keyword: "田中",
+      table_sort: "age:desc,name:asc",
+      table_filter_status: '"active"',
+    });
+
+    const expanded = expandCompactParams(
+      packCompactParams(original, queryKeys),
+      queryKeys
+    );
+
+    expect(Object.fromEntries(expanded)).toEqual(Object.fromEntries(original));
+  });
+
+  it("まとめたクエリパラメータがない場合は同じインスタンスを返す", () => {
+    const searchParams = new URLSearchParams({ table_page: "2" });
+
+    expect(expandCompactParams(searchParams, queryKeys)).toBe(searchParams);
+  });
+
+  it("状態ごとのクエリパラメータよりまとめたクエリパラメータを優先する", () => {
+    const packed = packCompactParams(
+      new URLSearchParams({ table_page: "3" }),
+      queryKeys
+    );
+    packed.set("table_page", "2");
+
+    expect(expandCompactParams(packed, queryKeys).get("table_page")).toBe("3");
+  });
+
+  it("値に含まれる区切り文字をエスケープして展開する", () => {
+    const original = new URLSearchParams({
+      table_keyword: "a*.b*-c**",
+      table_filter_status: "*",
+    });
+
+    const expanded = expandCompactParams(
+      packCompactParams(original, queryKeys),
+      queryKeys
+    );
+
+    expect(Object.fromEntries(expanded)).toEqual(Object.fromEntries(original));
+  });
+
+  it.each(["!!invalid", "k*.a*x", "k*-p*.2", "k*.a*.b"])(
+    "不正な値%sは無視する",
+    (encoded) => {
+      const expanded = expandCompactParams(
+        new URLSearchParams({ table: encoded, table_page: "2" }),
+        queryKeys
+      );
+
+      expect(expanded.toString()).toBe("table_page=2");
+    }
+  );
+
+  it("未知の短縮形は展開しない", () => {
+    const expanded = expandCompactParams(
+      new URLSearchParams({ table: "x*.1*-p*.2" }),
+      queryKeys
+    );
+
+    expect(expanded.toString()).toBe("table_page=2");
+  });
+});
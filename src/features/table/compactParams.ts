@@ -0,0 +1,179 @@
+import type { getQueryKeys } from "./parseTableState";
+
+/**
+ * キーがテーブルの状態のクエリパラメータかどうかを判定する
+ *
+ * @param key クエリパラメータのキー
+ * @param queryKeys クエリパラメータのキー
+ * @returns テーブルの状態のクエリパラメータの場合はtrue
+ */
+const isTableStateKey = (
+  key: string,
+  queryKeys: ReturnType<typeof getQueryKeys>
+): boolean =>
+  key !== queryKeys.compact &&
+  (key.startsWith(queryKeys.filterPrefix) ||
+    Object.values(queryKeys).includes(key));
+
+/**
+ * まとめたクエリパラメータで使用する、状態のクエリパラメータのキーの短縮形
+ *
+ * フィルターのキーは`_`にカラムキーを付けた形式にします。
+ */
+const compactKeyCodes = {
+  keywordSearch: "k",
+  sort: "s",
+  columnVisibility: "c",
+  columnOrder: "o",
+  pinLeft: "l",
+  pinRight: "r",
+  expandedRow: "e",
+  page: "p",
+  pageSize: "z",
+  cursor: "u",
+  cursorStack: "t",
+  version: "v",
+} as const satisfies Record<
+  Exclude<keyof ReturnType<typeof getQueryKeys>, "filterPrefix" | "compact">,
+  string
+>;
+
+/**
+ * まとめたクエリパラメータのエスケープ文字
+ *
+ * `*`はURLでエンコードされないため、区切りに使用してもクエリパラメータが長くなりません。
+ * 値に含まれる`*`は`**`、キーと値の区切りは`*.`、状態の区切りは`*-`とします。
+ */
+const ESCAPE = "*";
+
+/**
+ * 状態のクエリパラメータを1つの文字列にまとめる
+ *
+ * @param entries キーの短縮形と値の組
+ * @returns まとめた文字列
+ */
+const encodeCompactEntries = (entries: readonly [string, string][]): string =>
+  entries
+    .map((entry) =>
+      entry.map((text) => text.split(ESCAPE).join(ESCAPE + ESCAPE))
+    )
+    .map(([code, value]) => `${code}${ESCAPE}.${value}`)
+    .join(`${ESCAPE}-`);
+
+/**
+ * まとめた文字列を状態のクエリパラメータに分解する
+ *
+ * @param encoded まとめた文字列
+ * @returns キーの短縮形と値の組（不正な値の場合はnull）
+ */
+const decodeCompactEntries = (encoded: string): [string, string][] | null => {
+  const entries: [string, string][] = [];
+  let entry = [""];
+
+  for (let i = 0; i < encoded.length; i++) {
+    const char = encoded[i];
+    if (char !== ESCAPE) {
+      entry[entry.length - 1] += char;
+      continue;
+    }
+
+    const next = encoded[++i];
+    if (next === ESCAPE) {
+      entry[entry.length - 1] += ESCAPE;
+    } else if (next === "." && entry.length === 1) {
+      entry.push("");
+    } else if (next === "-" && entry.length === 2) {
+      entries.push([entry[0], entry[1]]);
+      entry = [""];
+    } else {
+      return null;
+    }
+  }
+
+  if (entry.length !== 2) return null;
+  entries.push([entry[0], entry[1]]);
+  return entries;
+};
+
+/**
+ * 1つのクエリパラメータにまとめた状態を、状態ごとのクエリパラメータに展開する
+ *
+ * まとめたクエリパラメータがない場合は、引数のインスタンスをそのまま返します。
+ * 不正な値の場合は、まとめたクエリパラメータを無視します。
+ *
+ * @param searchParams クエリパラメータ
+ * @param queryKeys クエリパラメータのキー
+ * @returns 展開したクエリパラメータ
+ */
+export const expandCompactParams = (
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>
+): URLSearchParams => {
+  const encoded = searchParams.get(queryKeys.compact);
+  if (encoded === null) return searchParams;
+
+  const expanded = new URLSearchParams(searchParams);
+  expanded.delete(queryKeys.compact);
+
+  const entries = decodeCompactEntries(encoded);
+  if (entries === null) return expanded;
+
+  const keysByCode = new Map<string, string>(
+    Object.entries(compactKeyCodes).map(([name, code]) => [
+      code,
+      queryKeys[name as keyof typeof compactKeyCodes],
+    ])
+  );
+
+  entries.forEach(([code, value]) => {
+    const key = code.startsWith("_")
+      ? `${queryKeys.filterPrefix}${code.slice(1)}`
+      : keysByCode.get(code);
+    // まとめたクエリパラメータを優先する
+    if (key !== undefined && isTableStateKey(key, queryKeys)) {
+      expanded.set(key, value);
+    }
+  });
+
+  return expanded;
+};
+
+/**
+ * 状態ごとのクエリパラメータを1つのクエリパラメータにまとめる
+ *
+ * キーを短縮形にして、状態ごとのクエリパラメータより短くなるようにまとめます。
+ * テーブルの状態以外のクエリパラメータはそのまま残します。
+ *
+ * @param searchParams 展開したクエリパラメータ
+ * @param queryKeys クエリパラメータのキー
+ * @returns まとめたクエリパラメータ
+ */
+export const packCompactParams = (
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>
+): URLSearchParams => {
+  const packed = new URLSearchParams();
+  const entries: [string, string][] = [];
+  const codesByKey = new Map<string, string>(
+    Object.entries(compactKeyCodes).map(([name, code]) => [
+      queryKeys[name as keyof typeof compactKeyCodes],
+      code,
+    ])
+  );
+
+  searchParams.forEach((value, key) => {
+    if (isTableStateKey(key, queryKeys)) {
+      const code =
+        codesByKey.get(key) ?? `_${key.slice(queryKeys.filterPrefix.length)}`;
+      entries.push([code, value]);
+    } else if (key !== queryKeys.compact) {
+      packed.append(key, value);
+    }
+  });
+
+  if (entries.length > 0) {
+    packed.set(queryKeys.compact, encodeCompactEntries(entries));
+  }
+
+  return packed;
+};
@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from "react";
+import {
+  ColumnDefinition,
+  ColumnFilterDefinition,
+  RowColumnFilterDefinition,
+  TableOptions,
+  TableState,
+  ExtractColumnKeys,
+  PaginationMode,
+  TableStateRequestSource,
+  TableQuery,
+  TableDiagnostics,
+  TableStateStore,
+  StoredTableView,
+} from "./types";
+import { useTableState } from "./useTableState";
+import { createTableActions, TableActionsByMode } from "./tableActions";
+import { createQueryParamsWriter } from "./queryParamsWriter";
+import { createSavedViews } from "./savedViews";
+import {
+  resolveTablePreferenceStore,
+  createMemoryPreferenceStore,
+  createLocalStoragePreferenceStore,
+} from "./tablePreferences";
+import {
+  createMemoryViewStorage,
+  createLocalStorageViewStorage,
+} from "./viewStorage";
+import { createTableComponent } from "./createTableComponent";
+import { createFilterRenderers } from "./filterRenderers";
+import { buildTableQuery } from "./tableQuery";
+import { applyTableState } from "./applyTableState";
+import {
+  getColumnPinSide,
+  getOrderedColumns,
+  getVisibleColumns,
+} from "./columnOrder";
+import { getColumnWidth } from "./columnWidths";
+import { createRowSelectionStore, getBulkActionTarget } from "./rowSelection";
+import { createRowExpansionStore } from "./rowExpansion";
+import { getPageSizeOptions, getPaginationInfo } from "./pagination";
+import {
+  getQueryKeyPrefix,
+  getQueryKeys,
+  parseTableState,
+  toSearchParams,
+} from "./parseTableState";
+import { claimQueryKeyPrefix } from "./queryKeyRegistry";
+import {
+  resolveTableStateStore,
+  createMemoryStore,
+  createHistoryStore,
+} from "./tableStateStore";
+import {
+  defineTableColumnFilter,
+  defineTableColumnFilterWithSchema,
+  createFilterEncoderDecoder,
+} from "./filterUtils";
+
+/**
+ * サーバー上で返す保存したビュー（インスタンスを共有する）
+ */
+const emptyStoredViews: readonly StoredTableView[] = [];
+const getServerViews = () => emptyStoredViews;
+
+/**
+ * テーブルインスタンスを構築する
+ *
+ * @param columnDefinitions - テーブルのカラム定義配列
+ * @param options - テーブルのオプション設定
+ * @param useUrlStore - URLストアを取得するフック（Next.jsを使用しない場合はnull）
+ * @returns テーブルインスタンス
+ */
+const buildTable = <
+  const Columns extends readonly ColumnDefinition<
+    string,
+    ColumnFilterDefinition | null,
+    Row
+  >[],
+  Row,
+  Mode extends PaginationMode
+>(
+  columnDefinitions: Columns,
+  options: TableOptions<Mode, Row> | undefined,
+  useUrlStore: (() => TableStateStore) | null
+) => {
+  // テーブルの状態を保存するストア
+  const useStore = resolveTableStateStore(options?.store, useUrlStore);
+
+  // URLに状態を保存する場合は、開発時にほかのテーブルとのクエリパラメータの衝突を検出する
+  const tableId = {};
+  const shouldClaimQueryKeys =
+    process.env.NODE_ENV !== "production" &&
+    (options?.store === undefined ||
+      options.store === "url" ||
+      options.store === "history");
+
+  // ユーザーの設定を保存するストア
+  const preferenceStore = resolveTablePreferenceStore(options);
+
+  // 書き込みに使用するストア（マウント中のフックが最新のストアを設定する）
+  let currentStore: TableStateStore | null = null;
+  let mountedCount = 0;
+  // 最初のフックのマウント後、デフォルトのビューを適用するかどうかをまだ判定していない場合はtrue
+  let isDefaultViewPending = false;
+
+  // クエリパラメータのライターとアクションはテーブルごとに1つだけ作成し、
+  // すべてのコンポーネントで共有する（アクションは常に同じ関数になる）
+  const writer = createQueryParamsWriter(
+    columnDefinitions,
+    () => {
+      if (!currentStore) {
+        throw new Error(
+          "テーブルのアクションはuseTableを使用するコンポーネントのマウント後に呼んでください"
+        );
+      }
+      return currentStore;
+    },
+    preferenceStore,
+    options
+  );
+  // 列の幅はURLに保存しないため、設定を保存しない場合もメモリ上に保持する
+  const columnWidthStore = preferenceStore ?? createMemoryPreferenceStore();
+  // 行の選択と展開した行はページを離れるまでメモリ上に保持する
+  const localStores = {
+    columnWidthStore,
+    selectionStore: createRowSelectionStore(),
+    expansionStore: createRowExpansionStore(),
+  };
+  const actions = createTableActions(
+    columnDefinitions,
+    writer,
+    localStores,
+    options
+  );
+
+  // 保存したビュー
+  const viewStorage = options?.viewStorage ?? createMemoryViewStorage();
+  const savedViews = createSavedViews<Columns, Mode>(
+    columnDefinitions,
+    writer,
+    actions,
+    viewStorage,
+    options
+  );
+
+  // テーブルの状態とすべてのアクションを提供するフック（内部用）
+  const useTableInternal = () => {
+    useEffect(() => {
+      if (!shouldClaimQueryKeys) return;
+      return claimQueryKeyPrefix(tableId, getQueryKeyPrefix(options));
+    }, []);
+
+    const store = useStore();
+    useEffect(() => {
+      currentStore = store;
+    }, [store]);
+
+    // 最初のフックのマウント時はデフォルトのビューの適用を予約し、
+    // 最後のフックのアンマウント時は書き込み待ちの更新を破棄する
+    useEffect(() => {
+      mountedCount += 1;
+      if (mountedCount === 1) isDefaultViewPending = true;
+      return () => {
+        mountedCount -= 1;
+        if (mountedCount === 0) {
+          writer.cancel();
+          isDefaultViewPending = false;
+        }
+      };
+    }, []);
+
+    // デフォルトのビューはストアがクエリパラメータを読み込んでから適用する
+    const isStoreReady = store.isReady?.() ?? true;
+    useEffect(() => {
+      if (!isStoreReady || !isDefaultViewPending) return;
+      isDefaultViewPending = false;
+      savedViews.applyDefaultView();
+    }, [isStoreReady]);
+
+    const { state, diagnostics } = useTableState(
+      columnDefinitions,
+      store,
+      preferenceStore,
+      localStores,
+      writer,
+      options
+    );
+
+    return {
+      state,
+      actions,
+      diagnostics,
+    };
+  };
+
+  // テーブルの状態を管理するフック
+  const useTable = (): {
+    state: TableState<Columns, Mode>;
+    actions: TableActionsByMode<Columns, Mode>;
+    diagnostics: TableDiagnostics;
+  } => useTableInternal();
+
+  // 保存したビューを管理するフック
+  const useSavedViews = () => {
+    const storedViews = useSyncExternalStore(
+      viewStorage.subscribe,
+      viewStorage.getViews,
+      getServerViews
+    );
+    const views = useMemo(
+      () => storedViews.map(savedViews.loadView),
+      [storedViews]
+    );
+
+    return {
+      views,
+      defaultView: views.find((view) => view.isDefault) ?? null,
+      saveView: savedViews.saveView,
+      applyView: savedViews.applyView,
+      renameView: savedViews.renameView,
+      deleteView: savedViews.deleteView,
+      setDefaultView: savedViews.setDefaultView,
+    };
+  };
+
+  // フィルターポップアップの状態管理フック
+  const useFilterPopup = () => {
+    const [openedFilterColumnKey, setOpenedFilterColumnKey] =
+      useState<ExtractColumnKeys<Columns> | null>(null);
+    return {
+      openedFilterColumnKey,
+      setOpenedFilterColumnKey,
+    };
+  };
+
+  // サーバー上でリクエストやクエリからテーブルの状態を解析する関数
+  // （getServerSidePropsやAPIルートで使用し、クライアントと同じ状態を得る）
+  const parseFromRequest = (
+    source: TableStateRequestSource
+  ): TableState<Columns, Mode> =>
+    parseTableState<Columns, Mode>(
+      toSearchParams(source),
+      getQueryKeys(options),
+      columnDefinitions,
+      options
+    );
+
+  // テーブルの状態からデータ取得用のクエリを作成する関数
+  // （データ取得フックとAPIルートで同じクエリの型を共有する）
+  const buildQuery = (
+    state: TableState<Columns, Mode>
+  ): TableQuery<Columns, Mode> => buildTableQuery(columnDefinitions, state);
+
+  // フィルターポップアップ・チップのレンダリング関数
+  const filterRenderers = createFilterRenderers(columnDefinitions);
+
+  // カラム定義と状態からテーブル全体をレンダリングするコンポーネント
+  const Table = createTableComponent<Columns, Row, Mode>({
+    columnDefinitions,
+    pageSizeOptions: getPageSizeOptions(options),
+    selection: options?.selection ?? null,
+    expansion: options?.expansion ?? null,
+    useTable: useTableInternal,
+    useFilterPopup,
+    ...filterRenderers,
+  });
+
+  return {
+    useTable,
+    useSavedViews,
+    parseFromRequest,
+    buildQuery,
+    columnDefinitions,
+    useFilterPopup,
+    renderFilterPopup: filterRenderers.renderFilterPopup,
+    renderFilterChip: filterRenderers.renderFilterChip,
+    Table,
+  };
+};
+
+/**
+ * テーブルインスタンスの型
+ */
+export type TableInstance<
+  Columns extends readonly ColumnDefinition<
+    string,
+    ColumnFilterDefinition | null,
+    Row
+  >[],
+  Row,
+  Mode extends PaginationMode = "offset"
+> = ReturnType<typeof buildTable<Columns, Row, Mode>>;
+
+/**
+ * テーブルコンポーネントファクトリー関数の型
+ *
+ * 行の型を指定する場合は`createTable<Row>()(columnDefinitions, options)`のように呼び出します。
+ */
+export type CreateTable = {
+  <Row>(): <
+    const Columns extends readonly ColumnDefinition<
+      string,
+      RowColumnFilterDefinition<Row> | null,
+      Row
+    >[],
+    Mode extends PaginationMode = "offset"
+  >(
+    columnDefinitions: Columns,
+    options?: TableOptions<Mode, Row>
+  ) => TableInstance<Columns, Row, Mode>;
+  <
+    const Columns extends readonly ColumnDefinition<string>[],
+    Mode extends PaginationMode = "offset"
+  >(
+    columnDefinitions: Columns,
+    options?: TableOptions<Mode>
+  ): TableInstance<Columns, unknown, Mode>;
+};
+
+/**
+ * URLストアを指定してテーブルコンポーネントファクトリー関数を作成する
+ *
+ * @param useUrlStore URLストアを取得するフック（Next.jsを使用しない場合はnull）
+ * @returns テーブルコンポーネントファクトリー関数
+ */
+export const createTableFactory = (
+  useUrlStore: (() => TableStateStore) | null
+): CreateTable =>
+  ((...args: [] | [readonly ColumnDefinition<string>[], TableOptions?]) => {
+    if (args.length === 0) {
+      return (
+        columnDefinitions: readonly ColumnDefinition<string>[],
+        options?: TableOptions
+      ) => buildTable(columnDefinitions, options, useUrlStore);
+    }
+
+    const [columnDefinitions, options] = args;
+    return buildTable(columnDefinitions, options, useUrlStore);
+  }) as CreateTable;
+
+/**
+ * Next.jsに依存しないテーブルコンポーネントファクトリー関数
+ *
+ * Next.js以外のReactアプリケーションで使用します。
+ * `options.store`のデフォルトは"history"で、"url"は指定できません。
+ * そのほかの使い方はNext.jsのエントリーポイントの`createTable`と同じです。
+ */
+export const createTable = createTableFactory(null);
+
+// ユーティリティ関数のみをエクスポート
+export {
+  defineTableColumnFilter,
+  defineTableColumnFilterWithSchema,
+  createFilterEncoderDecoder,
+  createMemoryStore,
+  createHistoryStore,
+  createMemoryViewStorage,
+  createLocalStorageViewStorage,
+  createMemoryPreferenceStore,
+  createLocalStoragePreferenceStore,
+  getPaginationInfo,
+  getOrderedColumns,
+  getVisibleColumns,
+  getColumnPinSide,
+  getColumnWidth,
+  getBulkActionTarget,
+  applyTableState,
+};
@@ -1,9 +1,13 @@
 import { expectTypeOf, describe, test } from "vitest";
 import * as v from "valibot";
+import { ComponentProps } from "react";
 import {
   createTable,
   defineTableColumnFilter,
   defineTableColumnFilterWithSchema,
+  getPaginationInfo,
+  applyTableState,
+  createLocalStorageViewStorage,
 } from "./createTable";
 
 const ageFilterSchema = v.object({
@@ -91,11 +95,20 @@ describe("テーブル定義とユースケース", () => {
       keywordSearch: string | null;
       sort: {
         // ソート可能なカラムのみ
-        sortBy: "name" | "age" | null;
-        sortOrder: "asc" | "desc" | null;
-      };
+        sortBy: "name" | "age";
+        sortOrder: "asc" | "desc";
+      }[];
       columnVisibility: ("name" | "age" | "status")[];
-      pagination: number;
+      columnOrder: ("name" | "age" | "status")[];
+      // 固定できるカラムのみ
+      pinning: { left: never[]; right: never[] };
+      columnWidths: { name?: number; age?: number; status?: number };
+      selection: { rowIds: string[]; allMatching: boolean };
+      expandedRowIds: string[];
+      pagination: {
+        page: number;
+        pageSize: number;
+      };
       filter: {
         // フィルター可能なカラムのみ、フィルターの型が推論される
         age: TestAgeFilter | null;
@@ -142,5 +155,785 @@ describe("テーブル定義とユースケース", () => {
       // @ts-expect-error フィルター可能でないカラムのソートはできない
       actions.toggleSort("status");
     });
+
+    test("複数カラムのソートもソート可能なカラムのみできること", () => {
+      actions.toggleMultiSort("name");
+      // @ts-expect-error ソート可能でないカラムは複数カラムのソートにも追加できない
+      actions.toggleMultiSort("status");
+    });
+
+    test("ソート条件の配列を設定できること", () => {
+      actions.setSort([
+        { sortBy: "age", sortOrder: "desc" },
+        { sortBy: "name", sortOrder: "asc" },
+      ]);
+      // @ts-expect-error ソート可能でないカラムはソート条件に含められない
+      actions.setSort([{ sortBy: "status", sortOrder: "asc" }]);
+    });
+  });
+});
+
+describe("行の型を指定したテーブル定義", () => {
+  type TestRow = {
+    name: string;
+    age: number;
+  };
+
+  test("renderCellの引数が行の型として推論されること", () => {
+    createTable<TestRow>()([
+      {
+        key: "name",
+        filter: null,
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Name",
+        renderCell: (row) => {
+          expectTypeOf(row).toEqualTypeOf<TestRow>();
+          return row.name;
+        },
+      },
+    ]);
+  });
+
+  test("行に存在しないプロパティを参照できないこと", () => {
+    createTable<TestRow>()([
+      {
+        key: "email",
+        filter: null,
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Email",
+        // @ts-expect-error 行に存在しないプロパティは参照できない
+        renderCell: (row) => row.email,
+      },
+    ]);
+  });
+
+  test("テーブルコンポーネントが行の型のデータを受け取ること", () => {
+    const table = createTable<TestRow>()([
+      {
+        key: "name",
+        filter: null,
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Name",
+        renderCell: (row) => row.name,
+      },
+    ]);
+
+    expectTypeOf(table.Table)
+      .parameter(0)
+      .toHaveProperty("data")
+      .toEqualTypeOf<TestRow[]>();
+  });
+});
+
+describe("フィルターのレンダリングヘルパー", () => {
+  const table = createTable([
+    {
+      key: "name" as const,
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+    {
+      key: "age" as const,
+      filter: defineTableColumnFilter<TestAgeFilter>({
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+        encodeForUrl: undefined,
+        decodeFromUrl: undefined,
+      }),
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Age",
+    },
+  ]);
+  const { state, actions } = table.useTable();
+
+  test("フィルター可能なカラムのポップアップとチップをレンダリングできること", () => {
+    table.renderFilterPopup("age", state, actions);
+    table.renderFilterChip("age", state);
+  });
+
+  test("フィルター可能でないカラムはレンダリングできないこと", () => {
+    // @ts-expect-error フィルター可能でないカラムのポップアップはレンダリングできない
+    table.renderFilterPopup("name", state, actions);
+    // @ts-expect-error フィルター可能でないカラムのチップはレンダリングできない
+    table.renderFilterChip("name", state);
+  });
+});
+
+describe("カーソルによるページネーション", () => {
+  const columns = [
+    {
+      key: "name" as const,
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+  ];
+  const cursorTable = createTable(columns, { paginationMode: "cursor" });
+  const offsetTable = createTable(columns);
+
+  test("ページネーションの状態がカーソルの型になること", () => {
+    expectTypeOf(cursorTable.useTable)
+      .returns.toHaveProperty("state")
+      .toHaveProperty("pagination")
+      .toEqualTypeOf<{
+        cursor: string | null;
+        cursorStack: string[];
+        pageSize: number;
+      }>();
+  });
+
+  test("カーソルによるページネーションのアクションのみ使用できること", () => {
+    const { state, actions } = cursorTable.useTable();
+
+    actions.nextPage("cursor");
+    actions.prevPage();
+    // @ts-expect-error カーソルによるページネーションではページ番号を指定できない
+    actions.setPagination(2);
+    // @ts-expect-error ページ番号によるページネーションのヘルパーは使用できない
+    getPaginationInfo(state.pagination);
+  });
+
+  test("ページ番号によるページネーションではカーソルのアクションを使用できないこと", () => {
+    const { state, actions } = offsetTable.useTable();
+
+    actions.setPagination(2);
+    getPaginationInfo(state.pagination);
+    // @ts-expect-error ページ番号によるページネーションでは次のカーソルを指定できない
+    actions.nextPage("cursor");
+  });
+
+  test("テーブルコンポーネントが方式に対応するプロパティを受け取ること", () => {
+    expectTypeOf(cursorTable.Table)
+      .parameter(0)
+      .toHaveProperty("nextCursor")
+      .toEqualTypeOf<string | null>();
+    expectTypeOf(offsetTable.Table)
+      .parameter(0)
+      .toHaveProperty("totalCount")
+      .toEqualTypeOf<number>();
+  });
+});
+
+describe("サーバー上での状態の解析", () => {
+  const columns = [
+    {
+      key: "name" as const,
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+  ];
+  const cursorTable = createTable(columns, { paginationMode: "cursor" });
+  const offsetTable = createTable(columns);
+
+  test("useTableと同じ型の状態を返すこと", () => {
+    expectTypeOf(offsetTable.parseFromRequest).returns.toEqualTypeOf<
+      ReturnType<typeof offsetTable.useTable>["state"]
+    >();
+    expectTypeOf(cursorTable.parseFromRequest).returns.toEqualTypeOf<
+      ReturnType<typeof cursorTable.useTable>["state"]
+    >();
+  });
+
+  test("クエリやリクエストを受け取ること", () => {
+    offsetTable.parseFromRequest({ table_page: "2", table_sort: ["name:asc"] });
+    offsetTable.parseFromRequest({ query: { table_page: "2" } });
+    offsetTable.parseFromRequest({ url: "/?table_page=2", headers: {} });
+    offsetTable.parseFromRequest(new URLSearchParams("table_page=2"));
+    // @ts-expect-error 数値のクエリは受け取れない
+    offsetTable.parseFromRequest({ table_page: 2 });
+  });
+});
+
+describe("データ取得用のクエリ", () => {
+  const table = createTable([
+    {
+      key: "name" as const,
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+    {
+      key: "age" as const,
+      filter: defineTableColumnFilter<
+        TestAgeFilter,
+        { minAge: number | null; maxAge: number | null }
+      >({
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+        encodeForUrl: undefined,
+        decodeFromUrl: undefined,
+        toQuery: (filter) => ({
+          minAge: filter.min ?? null,
+          maxAge: filter.max ?? null,
+        }),
+      }),
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Age",
+    },
+    {
+      key: "status" as const,
+      filter: defineTableColumnFilterWithSchema(statusFilterSchema, {
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+        toQuery: (filter) => ({ statuses: [filter] }),
+      }),
+      sortable: false,
+      initialVisibility: true,
+      renderHeadCell: () => "Status",
+    },
+  ]);
+  const cursorTable = createTable(
+    [
+      {
+        key: "name" as const,
+        filter: null,
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Name",
+      },
+    ],
+    { paginationMode: "cursor" }
+  );
+
+  test("フィルターのクエリの型がtoQueryから推論されること", () => {
+    expectTypeOf(table.buildQuery).returns.toEqualTypeOf<
+      {
+        keyword: string | null;
+        sort: { sortBy: "name" | "age"; sortOrder: "asc" | "desc" }[];
+        filters: {
+          age: { minAge: number | null; maxAge: number | null } | null;
+          status: { statuses: ("active" | "inactive")[] } | null;
+        };
+        limit: number;
+      } & { offset: number }
+    >();
+  });
+
+  test("カーソルによるページネーションではカーソルを含むこと", () => {
+    expectTypeOf(cursorTable.buildQuery)
+      .returns.toHaveProperty("cursor")
+      .toEqualTypeOf<string | null>();
+    expectTypeOf(cursorTable.buildQuery).returns.not.toHaveProperty("offset");
+  });
+});
+
+describe("行データへの状態の適用", () => {
+  type TestRow = {
+    name: string;
+    age: number;
+  };
+
+  const table = createTable<TestRow>()([
+    {
+      key: "name",
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+      compare: (a, b) => {
+        expectTypeOf(a).toEqualTypeOf<TestRow>();
+        return a.name.localeCompare(b.name);
+      },
+      getSearchText: (row) => row.name,
+    },
+    {
+      key: "age",
+      filter: defineTableColumnFilterWithSchema(ageFilterSchema, {
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+        predicate: (row, filter) => {
+          expectTypeOf(row).toEqualTypeOf<TestRow>();
+          expectTypeOf(filter).toEqualTypeOf<TestAgeFilter>();
+          return filter.min === undefined || row.age >= filter.min;
+        },
+      }),
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Age",
+      // @ts-expect-error 行に存在しないプロパティは比較できない
+      compare: (a, b) => a.email.localeCompare(b.email),
+    },
+    {
+      key: "email",
+      filter: defineTableColumnFilterWithSchema(ageFilterSchema, {
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+        // @ts-expect-error 行に存在しないプロパティはフィルターできない
+        predicate: (row) => row.email !== "",
+      }),
+      sortable: false,
+      initialVisibility: false,
+      renderHeadCell: () => "Email",
+    },
+  ]);
+  const cursorTable = createTable<TestRow>()(table.columnDefinitions, {
+    paginationMode: "cursor",
+  });
+
+  test("行の型と全件数を返すこと", () => {
+    const { state } = table.useTable();
+    const result = applyTableState(
+      [] as TestRow[],
+      state,
+      table.columnDefinitions
+    );
+
+    expectTypeOf(result.rows).toEqualTypeOf<TestRow[]>();
+    expectTypeOf(result.totalCount).toEqualTypeOf<number>();
+    // @ts-expect-error ページ番号によるページネーションでは次のカーソルを返さない
+    expectTypeOf(result.nextCursor);
+  });
+
+  test("カーソルによるページネーションでは次のカーソルを返すこと", () => {
+    const { state } = cursorTable.useTable();
+    const result = applyTableState(
+      [] as TestRow[],
+      state,
+      cursorTable.columnDefinitions
+    );
+
+    expectTypeOf(result.nextCursor).toEqualTypeOf<string | null>();
+  });
+});
+
+describe("クエリパラメータの診断情報", () => {
+  const table = createTable(
+    [
+      {
+        key: "name" as const,
+        filter: null,
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Name",
+      },
+    ],
+    {
+      onInvalidState: (issues, { canonicalize }) => {
+        expectTypeOf(issues[0].reason).toEqualTypeOf<
+          | "unknownColumn"
+          | "notSortable"
+          | "invalidSortOrder"
+          | "duplicateSort"
+          | "duplicateColumn"
+          | "notPinnable"
+          | "notFilterable"
+          | "invalidPage"
+          | "invalidPageSize"
+          | "invalidCursor"
+          | "invalidFilter"
+        >();
+        canonicalize();
+      },
+    }
+  );
+
+  test("useTableが問題の一覧を返すこと", () => {
+    expectTypeOf(table.useTable)
+      .returns.toHaveProperty("diagnostics")
+      .toEqualTypeOf<{
+        issues: {
+          key: string;
+          value: string;
+          reason: ReturnType<
+            typeof table.useTable
+          >["diagnostics"]["issues"][number]["reason"];
+          column?: string;
+        }[];
+      }>();
+  });
+});
+
+describe("履歴の扱いと更新のまとめ", () => {
+  const table = createTable(
+    [
+      {
+        key: "name" as const,
+        filter: null,
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Name",
+      },
+    ],
+    { history: "navigational", debounceMs: 300 }
+  );
+
+  test("アクションごとに履歴の扱いを指定できること", () => {
+    const { actions } = table.useTable();
+
+    actions.setKeywordSearch("田中", { history: "replace" });
+    actions.toggleSort("name", { history: "push" });
+    actions.setPagination(2, { history: "replace" });
+    // @ts-expect-error アクションごとにnavigationalは指定できない
+    actions.setPagination(2, { history: "navigational" });
+  });
+
+  test("batchで複数のアクションをまとめられること", () => {
+    const { actions } = table.useTable();
+
+    expectTypeOf(actions.batch).toEqualTypeOf<(fn: () => void) => void>();
+    actions.batch(() => {
+      actions.setKeywordSearch("田中");
+      actions.setSort([{ sortBy: "name", sortOrder: "asc" }]);
+    });
+  });
+});
+
+describe("状態をまとめて変更するアクション", () => {
+  const columns = [
+    {
+      key: "name" as const,
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+    {
+      key: "status" as const,
+      filter: defineTableColumnFilterWithSchema(statusFilterSchema, {
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+      sortable: false,
+      initialVisibility: true,
+      renderHeadCell: () => "Status",
+    },
+  ] as const;
+  const table = createTable(columns);
+  const cursorTable = createTable(columns, { paginationMode: "cursor" });
+
+  test("setStateが状態の一部を受け取ること", () => {
+    const { actions } = table.useTable();
+
+    actions.setState({
+      sort: [{ sortBy: "name", sortOrder: "desc" }],
+      filter: { status: "active" },
+    });
+    actions.setState({ pagination: { page: 2, pageSize: 10 } });
+    // @ts-expect-error ソート可能でないカラムではソートできない
+    actions.setState({ sort: [{ sortBy: "status", sortOrder: "asc" }] });
+    // @ts-expect-error フィルターの型に合わない値は指定できない
+    actions.setState({ filter: { status: "deleted" } });
+    actions.setState({
+      // @ts-expect-error ページ番号によるページネーションではカーソルを指定できない
+      pagination: { cursor: "c", cursorStack: [], pageSize: 10 },
+    });
+  });
+
+  test("カーソルによるページネーションではカーソルを指定できること", () => {
+    const { actions } = cursorTable.useTable();
+
+    actions.setState({
+      pagination: { cursor: "c2", cursorStack: ["c1"], pageSize: 10 },
+    });
+    // @ts-expect-error カーソルによるページネーションではページ番号を指定できない
+    actions.setState({ pagination: { page: 2, pageSize: 10 } });
+  });
+
+  test("リセットのアクションを使用できること", () => {
+    const { actions } = table.useTable();
+
+    actions.resetAll();
+    actions.resetFilters({ history: "replace" });
+    actions.clearFilter("status");
+    // @ts-expect-error フィルター可能でないカラムのフィルターは削除できない
+    actions.clearFilter("name");
+  });
+});
+
+describe("保存したビュー", () => {
+  const columns = [
+    {
+      key: "name" as const,
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+    {
+      key: "status" as const,
+      filter: defineTableColumnFilterWithSchema(statusFilterSchema, {
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+      sortable: false,
+      initialVisibility: true,
+      renderHeadCell: () => "Status",
+    },
+  ] as const;
+  const table = createTable(columns, {
+    viewStorage: createLocalStorageViewStorage("views"),
+  });
+
+  test("ビューの状態がテーブルの状態と同じ型であること", () => {
+    const { state } = table.useTable();
+    const { views, defaultView } = table.useSavedViews();
+
+    expectTypeOf(views[0].state).toEqualTypeOf(state);
+    expectTypeOf(defaultView).toEqualTypeOf<(typeof views)[number] | null>();
+  });
+
+  test("ビューを保存・適用・変更できること", () => {
+    const { saveView, applyView, renameView, deleteView, setDefaultView } =
+      table.useSavedViews();
+
+    expectTypeOf(
+      saveView("ビュー", { isDefault: true })
+    ).toEqualTypeOf<string>();
+    applyView("id", { history: "replace" });
+    renameView("id", "新しいビュー");
+    deleteView("id");
+    setDefaultView(null);
+  });
+});
+
+describe("列の順序", () => {
+  const table = createTable([
+    {
+      key: "name",
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+    {
+      key: "age",
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Age",
+    },
+  ]);
+
+  test("列の順序がカラムキーの配列であること", () => {
+    const { state } = table.useTable();
+
+    expectTypeOf(state.columnOrder).toEqualTypeOf<("name" | "age")[]>();
+  });
+
+  test("列の順序を変更するアクションがカラムキーを受け取ること", () => {
+    const { actions } = table.useTable();
+
+    actions.moveColumn("age", 0);
+    actions.setColumnOrder(["age", "name"], { history: "replace" });
+    actions.setState({ columnOrder: ["age"] });
+    // @ts-expect-error 存在しないカラムは移動できない
+    actions.moveColumn("email", 0);
+    // @ts-expect-error 存在しないカラムは指定できない
+    actions.setColumnOrder(["email"]);
+  });
+});
+
+describe("列の固定", () => {
+  const table = createTable([
+    {
+      key: "id",
+      filter: null,
+      sortable: false,
+      initialVisibility: true,
+      pinnable: true,
+      renderHeadCell: () => "ID",
+    },
+    {
+      key: "name",
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+  ]);
+
+  test("固定する列が固定できるカラムのキーの配列であること", () => {
+    const { state } = table.useTable();
+
+    expectTypeOf(state.pinning).toEqualTypeOf<{
+      left: "id"[];
+      right: "id"[];
+    }>();
+  });
+
+  test("固定できるカラムのみを固定できること", () => {
+    const { actions } = table.useTable();
+
+    actions.pinColumn("id", "left");
+    actions.unpinColumn("id", { history: "replace" });
+    actions.setState({ pinning: { left: [], right: ["id"] } });
+    // @ts-expect-error 固定できないカラムは固定できない
+    actions.pinColumn("name", "left");
+    // @ts-expect-error 固定する位置はleftかright
+    actions.pinColumn("id", "top");
+  });
+});
+
+describe("列の幅", () => {
+  const table = createTable([
+    {
+      key: "id",
+      filter: null,
+      sortable: false,
+      initialVisibility: true,
+      defaultWidth: 80,
+      minWidth: 60,
+      renderHeadCell: () => "ID",
+    },
+    {
+      key: "name",
+      filter: null,
+      sortable: true,
+      initialVisibility: true,
+      renderHeadCell: () => "Name",
+    },
+  ]);
+
+  test("列の幅がカラムキーごとの幅であること", () => {
+    const { state } = table.useTable();
+
+    expectTypeOf(state.columnWidths).toEqualTypeOf<{
+      id?: number;
+      name?: number;
+    }>();
+  });
+
+  test("存在するカラムの幅のみを変更できること", () => {
+    const { actions } = table.useTable();
+
+    actions.setColumnWidth("name", 200);
+    actions.resetColumnWidth("id");
+    actions.setState({ columnWidths: { id: 100 } });
+    // @ts-expect-error 存在しないカラムの幅は変更できない
+    actions.setColumnWidth("unknown", 200);
+  });
+});
+
+describe("行の選択", () => {
+  type TestRow = {
+    id: string;
+    name: string;
+  };
+
+  const table = createTable<TestRow>()(
+    [
+      {
+        key: "name",
+        filter: defineTableColumnFilterWithSchema(statusFilterSchema, {
+          renderPopupContent: () => null,
+          renderFilterChipContent: () => null,
+          initial: null,
+        }),
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Name",
+      },
+    ],
+    {
+      selection: {
+        getRowId: (row) => {
+          expectTypeOf(row).toEqualTypeOf<TestRow>();
+          return row.id;
+        },
+        mode: "multi",
+      },
+    }
+  );
+
+  test("選択した行の状態を取得できること", () => {
+    const { state, actions } = table.useTable();
+
+    expectTypeOf(state.selection).toEqualTypeOf<{
+      rowIds: string[];
+      allMatching: boolean;
+    }>();
+    actions.toggleRowSelection("1", ["1", "2"], { range: true });
+    actions.togglePageSelection(["1", "2"]);
+    actions.selectAllMatching();
+    actions.clearSelection();
+  });
+
+  test("一括操作が選択した行のIDか現在のフィルターを受け取ること", () => {
+    type BulkActionsProps = ComponentProps<
+      NonNullable<
+        NonNullable<ComponentProps<typeof table.Table>["slots"]>["BulkActions"]
+      >
+    >;
+    type Target = BulkActionsProps["target"];
+
+    expectTypeOf<
+      Extract<Target, { allMatching: false }>["rowIds"]
+    >().toEqualTypeOf<string[]>();
+    expectTypeOf<
+      Extract<Target, { allMatching: true }>["filter"]
+    >().toEqualTypeOf<ReturnType<typeof table.useTable>["state"]["filter"]>();
+  });
+
+  test("getRowIdは行の型に対して型チェックされること", () => {
+    createTable<TestRow>()([], {
+      // @ts-expect-error 行に存在しないプロパティはIDにできない
+      selection: { getRowId: (row) => row.email },
+    });
+  });
+});
+
+describe("行の展開", () => {
+  type TestRow = {
+    id: string;
+    name: string;
+  };
+
+  const table = createTable<TestRow>()(
+    [
+      {
+        key: "name",
+        filter: null,
+        sortable: true,
+        initialVisibility: true,
+        renderHeadCell: () => "Name",
+      },
+    ],
+    {
+      expansion: {
+        getRowId: (row) => row.id,
+        renderExpandedRow: (row) => {
+          expectTypeOf(row).toEqualTypeOf<TestRow>();
+          return row.name;
+        },
+        persistInUrl: true,
+      },
+    }
+  );
+
+  test("展開した行の状態を取得できること", () => {
+    const { state, actions } = table.useTable();
+
+    expectTypeOf(state.expandedRowIds).toEqualTypeOf<string[]>();
+    actions.toggleRowExpansion("1");
+    actions.expandAll(["1", "2"]);
+    actions.collapseAll({ history: "replace" });
+  });
+
+  test("renderExpandedRowは行の型に対して型チェックされること", () => {
+    createTable<TestRow>()([], {
+      expansion: {
+        getRowId: (row) => row.id,
+        // @ts-expect-error 行に存在しないプロパティは参照できない
+        renderExpandedRow: (row) => row.email,
+      },
+    });
   });
 });
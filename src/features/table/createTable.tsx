@@ -1,12 +1,8 @@
-import { useState } from "react";
-import { ColumnDefinition, TableOptions, ExtractColumnKeys } from "./types";
-import { useTableState } from "./useTableState";
-import { useTableActions } from "./useTableActions";
-import {
-  defineTableColumnFilter,
-  defineTableColumnFilterWithSchema,
-  createFilterEncoderDecoder,
-} from "./filterUtils";
+import { createTableFactory } from "./createReactTable";
+import { useUrlStore } from "./urlStore";
+
+// Next.jsに依存しないユーティリティ関数と型を再エクスポート
+export * from "./createReactTable";
 
 /**
  * テーブルコンポーネントファクトリー関数
@@ -14,45 +10,22 @@ import {
  * このAPIは型安全なテーブルコンポーネントを作成します。
  * テーブルの状態（ソート、フィルター、表示列など）はURLパラメータに格納され、
  * ページリロードやリンク共有時に保持されます。
+ * `options.store`を指定すると、メモリや`window.history`など別のストアに格納できます。
+ * `options.paginationMode`に"cursor"を指定すると、ページ番号の代わりにカーソルでページを管理します。
+ * 1つのページに複数のテーブルを配置する場合は`options.tableName`でクエリパラメータを分けます
+ * （開発時は、URLに状態を保存するテーブル同士のクエリパラメータの衝突を検出して例外を投げます）。
+ * `useSavedViews`で状態に名前を付けてビューとして保存でき、保存先は`options.viewStorage`で指定します。
+ * `options.preferences`を指定すると、列の表示/非表示と順序、ページサイズ、列の幅をセッションをまたいで保存します。
+ * `options.selection`を指定すると行を選択でき、選択した行に対する一括操作を`slots.BulkActions`で表示します。
+ * `options.expansion`を指定すると行を展開して詳細を表示でき、最後に展開した行をURLに保存することもできます。
+ *
+ * 行の型を指定する場合は`createTable<Row>()(columnDefinitions, options)`のように呼び出します。
+ * カラム定義の`renderCell`と`options.selection`、`options.expansion`の関数が行の型に対して型チェックされます。
+ *
+ * Next.jsに依存するため、Next.js以外のReactアプリケーションでは`createReactTable`の`createTable`を使用します。
  *
  * @param columnDefinitions - テーブルのカラム定義配列
  * @param options - テーブルのオプション設定
- * @returns テーブルインスタンス（フックとヘルパー関数を含む）
+ * @returns テーブルインスタンス（フック、ヘルパー関数、テーブルコンポーネントを含む）
  */
-export function createTable<
-  const Columns extends readonly ColumnDefinition<string>[]
->(columnDefinitions: Columns, options?: TableOptions) {
-  // テーブルの状態を管理するフック
-  const useTable = () => {
-    const state = useTableState(columnDefinitions, options);
-    const actions = useTableActions(columnDefinitions, state, options);
-
-    return {
-      state,
-      actions,
-    };
-  };
-
-  // フィルターポップアップの状態管理フック
-  const useFilterPopup = () => {
-    const [openedFilterColumnKey, setOpenedFilterColumnKey] =
-      useState<ExtractColumnKeys<Columns> | null>(null);
-    return {
-      openedFilterColumnKey,
-      setOpenedFilterColumnKey,
-    };
-  };
-
-  return {
-    useTable,
-    columnDefinitions,
-    useFilterPopup,
-  };
-}
-
-// ユーティリティ関数のみをエクスポート
-export {
-  defineTableColumnFilter,
-  defineTableColumnFilterWithSchema,
-  createFilterEncoderDecoder,
-};
+export const createTable = createTableFactory(useUrlStore);
@@ -0,0 +1,780 @@
+import { ComponentType, FC, Fragment, useState } from "react";
+import { useForm } from "react-hook-form";
+import { valibotResolver } from "@hookform/resolvers/valibot";
+import * as v from "valibot";
+import {
+  ArrowDown,
+  ArrowUp,
+  ArrowUpDown,
+  ChevronDown,
+  ChevronRight,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  Filter,
+  GripVertical,
+  Pin,
+  PinOff,
+  X,
+} from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import * as ShadCNUiTable from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Popover,
+  PopoverAnchor,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  ColumnDefinition,
+  ColumnFilterDefinition,
+  ExtractColumnKeys,
+  PaginationMode,
+  TableBulkActionTarget,
+  TableExpansionOptions,
+  TableSelectionOptions,
+  TableState,
+} from "./types";
+import { TableActions } from "./tableActions";
+import { createFilterRenderers } from "./filterRenderers";
+import { getPaginationInfo, isCursorPagination } from "./pagination";
+import {
+  getColumnPinSide,
+  getOrderedColumns,
+  getVisibleColumns,
+} from "./columnOrder";
+import { getColumnWidth } from "./columnWidths";
+import {
+  getBulkActionTarget,
+  getPageSelectionState,
+  isRowSelected,
+} from "./rowSelection";
+import { isPageExpanded } from "./rowExpansion";
+
+/**
+ * テーブル本体のプロパティ
+ */
+export type TableBodyProps<Row> = {
+  data: Row[];
+};
+
+/**
+ * ヘッダー行のプロパティ
+ */
+export type TableHeaderProps<Row> = {
+  /**
+   * 現在のページの行（行を選択する場合、ページのすべての行を選択するチェックボックスに使用）
+   */
+  data?: Row[];
+};
+
+/**
+ * 一括操作のプロパティ
+ */
+export type TableBulkActionsProps<Columns extends readonly ColumnDefinition[]> =
+  {
+    target: TableBulkActionTarget<Columns>;
+  };
+
+/**
+ * 選択した行の件数を表示するバーのプロパティ
+ */
+export type TableSelectionBarProps<
+  Row,
+  Columns extends readonly ColumnDefinition[]
+> = TableBodyProps<Row> & {
+  /**
+   * 全件数（すべての行を選択するボタンの表示に使用）
+   */
+  totalCount?: number;
+  /**
+   * 選択した行に対する一括操作
+   */
+  BulkActions?: ComponentType<TableBulkActionsProps<Columns>>;
+};
+
+/**
+ * ページネーションのプロパティ
+ */
+export type TablePaginationProps = {
+  /**
+   * 全件数（カーソルによるページネーションでは省略可能）
+   */
+  totalCount?: number;
+  /**
+   * 次のページのカーソル（カーソルによるページネーションのみ）
+   */
+  nextCursor?: string | null;
+};
+
+/**
+ * テーブルの各パーツを差し替えるためのスロット
+ */
+export type TableSlots<
+  Row,
+  Columns extends readonly ColumnDefinition[] = readonly ColumnDefinition[]
+> = {
+  KeywordSearch: ComponentType;
+  ColumnToggle: ComponentType;
+  FilterChips: ComponentType;
+  SelectionBar: ComponentType<TableSelectionBarProps<Row, Columns>>;
+  /**
+   * 選択した行に対する一括操作（デフォルトは表示しない）
+   */
+  BulkActions: ComponentType<TableBulkActionsProps<Columns>>;
+  Header: ComponentType<TableHeaderProps<Row>>;
+  Body: ComponentType<TableBodyProps<Row>>;
+  Pagination: ComponentType<TablePaginationProps>;
+};
+
+/**
+ * テーブルコンポーネントのプロパティ
+ *
+ * ページ番号によるページネーションでは全件数を、
+ * カーソルによるページネーションではデータソースが返した次のページのカーソルを渡します。
+ */
+export type TableProps<
+  Row,
+  Mode extends PaginationMode,
+  Columns extends readonly ColumnDefinition[] = readonly ColumnDefinition[]
+> = TableBodyProps<Row> &
+  (Mode extends "cursor"
+    ? { nextCursor: string | null; totalCount?: number }
+    : { totalCount: number }) & {
+    slots?: Partial<TableSlots<Row, Columns>>;
+  };
+
+const keywordSearchFormValuesSchema = v.object({ keyword: v.string() });
+
+/**
+ * テーブルのレンダリングコンポーネントを作成する
+ *
+ * @param table テーブルのカラム定義とフック
+ * @returns テーブルコンポーネント（各パーツを静的プロパティに持つ）
+ */
+export const createTableComponent = <
+  Columns extends readonly ColumnDefinition<
+    string,
+    ColumnFilterDefinition | null,
+    Row
+  >[],
+  Row,
+  Mode extends PaginationMode
+>(
+  table: {
+    columnDefinitions: Columns;
+    pageSizeOptions: readonly number[];
+    selection: TableSelectionOptions<Row> | null;
+    expansion: TableExpansionOptions<Row> | null;
+    useTable: () => {
+      state: TableState<Columns, PaginationMode>;
+      actions: TableActions<Columns>;
+    };
+    useFilterPopup: () => {
+      openedFilterColumnKey: ExtractColumnKeys<Columns> | null;
+      setOpenedFilterColumnKey: (
+        key: ExtractColumnKeys<Columns> | null
+      ) => void;
+    };
+  } & ReturnType<typeof createFilterRenderers<Columns>>
+) => {
+  const {
+    isFilterableColumn,
+    renderFilterPopup,
+    renderFilterChip,
+    selection,
+    expansion,
+  } = table;
+
+  /**
+   * 行の選択・展開の列を固定する位置（左に固定した列がある場合は一緒に固定する）
+   *
+   * @param state テーブルの状態
+   * @returns 固定する位置
+   */
+  const getLeadingColumnPinSide = (
+    state: TableState<Columns, PaginationMode>
+  ) => (state.pinning.left.length > 0 ? "left" : null);
+
+  /**
+   * 親のパーツから受け取るテーブルの状態とアクション
+   * （列ごとのボタンなどがそれぞれuseTableでクエリパラメータを解析しないようにする）
+   */
+  type TableStateProps = {
+    state: TableState<Columns, PaginationMode>;
+    actions: TableActions<Columns>;
+  };
+
+  // キーワード検索フォーム
+  const KeywordSearch: FC = () => {
+    const { state, actions } = table.useTable();
+    const { register, handleSubmit } = useForm({
+      resolver: valibotResolver(keywordSearchFormValuesSchema),
+      defaultValues: {
+        keyword: state.keywordSearch ?? "",
+      },
+    });
+
+    const onSubmit = (
+      data: v.InferOutput<typeof keywordSearchFormValuesSchema>
+    ) => {
+      actions.setKeywordSearch(data.keyword);
+    };
+
+    return (
+      <form onSubmit={handleSubmit(onSubmit)} className="flex gap-2">
+        <Input type="text" {...register("keyword")} />
+        <Button type="submit">Search</Button>
+      </form>
+    );
+  };
+
+  // 表示列の切り替えメニュー（ドラッグ&ドロップで列の順序を変更する）
+  const ColumnToggle: FC = () => {
+    const { state, actions } = table.useTable();
+    const [draggingColumnKey, setDraggingColumnKey] =
+      useState<ExtractColumnKeys<Columns> | null>(null);
+
+    const orderedColumns = getOrderedColumns(table.columnDefinitions, state);
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="ml-auto">
+            Columns <ChevronDown />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {orderedColumns.map((column, index) => (
+            <DropdownMenuCheckboxItem
+              key={column.key}
+              checked={state.columnVisibility.includes(column.key)}
+              onCheckedChange={(checked) =>
+                actions.setColumnVisibility(column.key, checked)
+              }
+              draggable
+              onDragStart={() => setDraggingColumnKey(column.key)}
+              onDragEnd={() => setDraggingColumnKey(null)}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                event.preventDefault();
+                if (draggingColumnKey === null) return;
+                actions.moveColumn(draggingColumnKey, index);
+                setDraggingColumnKey(null);
+              }}
+              className={draggingColumnKey === column.key ? "opacity-50" : ""}
+            >
+              <GripVertical className="text-muted-foreground" />
+              {column.renderHeadCell()}
+            </DropdownMenuCheckboxItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  // 適用中のフィルターのチップ一覧
+  const FilterChips: FC = () => {
+    const { state, actions } = table.useTable();
+
+    const filteringColumns = table.columnDefinitions
+      .filter(isFilterableColumn)
+      .filter(
+        (column) =>
+          state.columnVisibility.includes(column.key) &&
+          state.filter[column.key] != null
+      );
+
+    if (filteringColumns.length === 0) return null;
+
+    return (
+      <div className="flex flex-wrap gap-2">
+        {filteringColumns.map((column) => (
+          <div
+            key={column.key}
+            className="flex items-center gap-1 bg-primary-foreground text-primary-background rounded-full px-2"
+          >
+            <div>{column.renderHeadCell()}</div>
+            {renderFilterChip(column.key, state)}
+            <Button
+              variant="ghost"
+              onClick={() => actions.setFilter(column.key, null)}
+            >
+              <X aria-label="clear" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  // 選択した行の件数と一括操作（行を選択していない場合は表示しない）
+  const SelectionBar: FC<TableSelectionBarProps<Row, Columns>> = ({
+    data,
+    totalCount,
+    BulkActions,
+  }) => {
+    const { state, actions } = table.useTable();
+    const { selection: rowSelection } = state;
+
+    if (!selection) return null;
+    if (!rowSelection.allMatching && rowSelection.rowIds.length === 0) {
+      return null;
+    }
+
+    // ページのすべての行を選択している場合は、ほかのページを含むすべての行を選択できる
+    const pageRowIds = data.map(selection.getRowId);
+    const canSelectAllMatching =
+      selection.mode !== "single" &&
+      !rowSelection.allMatching &&
+      getPageSelectionState(rowSelection, pageRowIds) === true &&
+      (totalCount === undefined || totalCount > rowSelection.rowIds.length);
+
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <div className="text-muted-foreground">
+          {rowSelection.allMatching
+            ? totalCount === undefined
+              ? "All matching rows selected"
+              : `All ${totalCount} matching rows selected`
+            : `${rowSelection.rowIds.length} selected`}
+        </div>
+        {canSelectAllMatching && (
+          <Button
+            variant="link"
+            size="sm"
+            onClick={() => actions.selectAllMatching()}
+          >
+            {totalCount === undefined
+              ? "Select all matching rows"
+              : `Select all ${totalCount} matching rows`}
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => actions.clearSelection()}
+        >
+          Clear selection
+        </Button>
+        {BulkActions && (
+          <div className="ml-auto flex gap-2">
+            <BulkActions target={getBulkActionTarget(rowSelection, state)} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // ソートボタン（Shift+クリックで複数カラムのソートに追加する）
+  const SortButton: FC<
+    TableStateProps & { columnKey: Columns[number]["key"] }
+  > = ({ state, actions, columnKey }) => {
+    const sortIndex = state.sort.findIndex((item) => item.sortBy === columnKey);
+    const sortOrder = state.sort[sortIndex]?.sortOrder ?? null;
+
+    return (
+      <Button
+        onClick={(event) =>
+          event.shiftKey
+            ? actions.toggleMultiSort(columnKey)
+            : actions.toggleSort(columnKey)
+        }
+        variant="ghost"
+      >
+        {sortOrder === "asc" ? (
+          <ArrowDown />
+        ) : sortOrder === "desc" ? (
+          <ArrowUp />
+        ) : (
+          <ArrowUpDown />
+        )}
+        {state.sort.length > 1 && sortIndex >= 0 && (
+          <span className="text-xs">{sortIndex + 1}</span>
+        )}
+      </Button>
+    );
+  };
+
+  // 列の固定ボタン（固定していない列は左に固定し、固定した列は固定を解除する）
+  const PinButton: FC<
+    TableStateProps & { columnKey: Columns[number]["key"] }
+  > = ({ state, actions, columnKey }) => {
+    const pinSide = getColumnPinSide(state, columnKey);
+
+    return (
+      <Button
+        onClick={() =>
+          pinSide === null
+            ? actions.pinColumn(columnKey, "left")
+            : actions.unpinColumn(columnKey)
+        }
+        variant="ghost"
+      >
+        {pinSide === null ? <Pin /> : <PinOff />}
+      </Button>
+    );
+  };
+
+  // ページのすべての行を選択するチェックボックス（複数選択のみ）
+  const SelectionHeadCell: FC<TableStateProps & TableBodyProps<Row>> = ({
+    state,
+    actions,
+    data,
+  }) => {
+    if (!selection) return null;
+
+    const pageRowIds = data.map(selection.getRowId);
+
+    return (
+      <ShadCNUiTable.TableHead
+        className="w-8"
+        pinned={getLeadingColumnPinSide(state)}
+      >
+        {selection.mode !== "single" && (
+          <Checkbox
+            checked={getPageSelectionState(state.selection, pageRowIds)}
+            onCheckedChange={() => actions.togglePageSelection(pageRowIds)}
+            disabled={pageRowIds.length === 0}
+            aria-label="Select page"
+          />
+        )}
+      </ShadCNUiTable.TableHead>
+    );
+  };
+
+  // ページのすべての行を展開・折りたたむボタン
+  const ExpansionHeadCell: FC<TableStateProps & TableBodyProps<Row>> = ({
+    state,
+    actions,
+    data,
+  }) => {
+    if (!expansion) return null;
+
+    const pageRowIds = data.map(expansion.getRowId);
+    const pageExpanded = isPageExpanded(state.expandedRowIds, pageRowIds);
+
+    return (
+      <ShadCNUiTable.TableHead
+        className="w-8"
+        pinned={getLeadingColumnPinSide(state)}
+      >
+        <Button
+          onClick={() =>
+            pageExpanded ? actions.collapseAll() : actions.expandAll(pageRowIds)
+          }
+          disabled={pageRowIds.length === 0}
+          variant="ghost"
+          aria-label={pageExpanded ? "Collapse all rows" : "Expand all rows"}
+        >
+          {pageExpanded ? <ChevronsDownUp /> : <ChevronsUpDown />}
+        </Button>
+      </ShadCNUiTable.TableHead>
+    );
+  };
+
+  // ソートボタンとフィルターポップアップを持つヘッダー行
+  const Header: FC<TableHeaderProps<Row>> = ({ data = [] }) => {
+    const { state, actions } = table.useTable();
+    const { openedFilterColumnKey, setOpenedFilterColumnKey } =
+      table.useFilterPopup();
+
+    const visibleColumns = getVisibleColumns(table.columnDefinitions, state);
+
+    return (
+      <ShadCNUiTable.TableHeader>
+        <ShadCNUiTable.TableRow>
+          <SelectionHeadCell state={state} actions={actions} data={data} />
+          <ExpansionHeadCell state={state} actions={actions} data={data} />
+          {visibleColumns.map((column) => (
+            <ShadCNUiTable.TableHead
+              key={column.key}
+              pinned={getColumnPinSide(state, column.key)}
+              width={getColumnWidth(column, state)}
+              minWidth={column.minWidth}
+              maxWidth={column.maxWidth}
+              onWidthChange={(width) =>
+                actions.setColumnWidth(column.key, width)
+              }
+              onWidthReset={() => actions.resetColumnWidth(column.key)}
+            >
+              {column.renderHeadCell()}
+              {column.sortable && (
+                <SortButton
+                  state={state}
+                  actions={actions}
+                  columnKey={column.key}
+                />
+              )}
+              {column.pinnable && (
+                <PinButton
+                  state={state}
+                  actions={actions}
+                  columnKey={column.key}
+                />
+              )}
+              {isFilterableColumn(column) && (
+                <Popover
+                  open={openedFilterColumnKey === column.key}
+                  onOpenChange={(open) =>
+                    setOpenedFilterColumnKey(open ? column.key : null)
+                  }
+                >
+                  <PopoverTrigger asChild>
+                    <Button variant="ghost">
+                      <Filter />
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverAnchor>
+                    <PopoverContent>
+                      {renderFilterPopup(column.key, state, actions, {
+                        onClose: () => setOpenedFilterColumnKey(null),
+                      })}
+                    </PopoverContent>
+                  </PopoverAnchor>
+                </Popover>
+              )}
+            </ShadCNUiTable.TableHead>
+          ))}
+        </ShadCNUiTable.TableRow>
+      </ShadCNUiTable.TableHeader>
+    );
+  };
+
+  // データ行（展開した行の下に詳細パネルを表示する）
+  const Body: FC<TableBodyProps<Row>> = ({ data }) => {
+    const { state, actions } = table.useTable();
+
+    const visibleColumns = getVisibleColumns(table.columnDefinitions, state);
+    const pageRowIds = selection ? data.map(selection.getRowId) : [];
+    const columnCount =
+      visibleColumns.length + (selection ? 1 : 0) + (expansion ? 1 : 0);
+
+    return (
+      <ShadCNUiTable.TableBody>
+        {data.map((row, rowIndex) => {
+          const rowId = selection ? pageRowIds[rowIndex] : null;
+          const selected =
+            rowId !== null && isRowSelected(state.selection, rowId);
+          const expansionRowId = expansion ? expansion.getRowId(row) : null;
+          const expanded =
+            expansionRowId !== null &&
+            state.expandedRowIds.includes(expansionRowId);
+
+          return (
+            <Fragment key={rowId ?? expansionRowId ?? rowIndex}>
+              <ShadCNUiTable.TableRow
+                data-state={selected ? "selected" : undefined}
+              >
+                {rowId !== null && (
+                  <ShadCNUiTable.TableCell
+                    pinned={getLeadingColumnPinSide(state)}
+                  >
+                    {/* Shift+クリックで直前に選択した行からの範囲を選択する */}
+                    <Checkbox
+                      checked={selected}
+                      onClick={(event) =>
+                        actions.toggleRowSelection(rowId, pageRowIds, {
+                          range: event.shiftKey,
+                        })
+                      }
+                      aria-label="Select row"
+                    />
+                  </ShadCNUiTable.TableCell>
+                )}
+                {expansionRowId !== null && (
+                  <ShadCNUiTable.TableCell
+                    pinned={getLeadingColumnPinSide(state)}
+                  >
+                    <Button
+                      onClick={() => actions.toggleRowExpansion(expansionRowId)}
+                      variant="ghost"
+                      aria-label={expanded ? "Collapse row" : "Expand row"}
+                      aria-expanded={expanded}
+                    >
+                      {expanded ? <ChevronDown /> : <ChevronRight />}
+                    </Button>
+                  </ShadCNUiTable.TableCell>
+                )}
+                {visibleColumns.map((column) => (
+                  <ShadCNUiTable.TableCell
+                    key={column.key}
+                    pinned={getColumnPinSide(state, column.key)}
+                  >
+                    {column.renderCell?.(row)}
+                  </ShadCNUiTable.TableCell>
+                ))}
+              </ShadCNUiTable.TableRow>
+              {expanded && (
+                <ShadCNUiTable.TableRow>
+                  <ShadCNUiTable.TableCell colSpan={columnCount}>
+                    {expansion?.renderExpandedRow(row)}
+                  </ShadCNUiTable.TableCell>
+                </ShadCNUiTable.TableRow>
+              )}
+            </Fragment>
+          );
+        })}
+      </ShadCNUiTable.TableBody>
+    );
+  };
+
+  // ページサイズの選択メニュー（選択肢が1つの場合は表示しない）
+  const PageSizeSelect: FC<TableStateProps> = ({ state, actions }) => {
+    const { pageSize } = state.pagination;
+
+    if (table.pageSizeOptions.length <= 1) return null;
+
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm">
+            {`${pageSize} / page`} <ChevronDown />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuRadioGroup
+            value={pageSize.toString()}
+            onValueChange={(value) => actions.setPageSize(Number(value))}
+          >
+            {table.pageSizeOptions.map((option) => (
+              <DropdownMenuRadioItem key={option} value={option.toString()}>
+                {option}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  };
+
+  // ページネーションのフッター
+  const Pagination: FC<TablePaginationProps> = ({
+    totalCount,
+    nextCursor = null,
+  }) => {
+    const { state, actions } = table.useTable();
+    const { pagination } = state;
+
+    if (isCursorPagination(pagination)) {
+      return (
+        <div className="flex items-center justify-end space-x-2 pt-4">
+          <div className="flex-1 text-sm text-muted-foreground">
+            {totalCount !== undefined && `Total ${totalCount} items`}
+          </div>
+          <PageSizeSelect state={state} actions={actions} />
+          <div className="space-x-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => actions.prevPage()}
+              disabled={pagination.cursor === null}
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                nextCursor !== null && actions.nextPage(nextCursor)
+              }
+              disabled={nextCursor === null}
+            >
+              Next
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    const { page } = pagination;
+    const { totalPages } = getPaginationInfo(pagination, totalCount);
+
+    return (
+      <div className="flex items-center justify-end space-x-2 pt-4">
+        <div className="flex-1 text-sm text-muted-foreground">
+          {`Page ${page} of ${totalPages}, Total ${totalCount ?? 0} items`}
+        </div>
+        <PageSizeSelect state={state} actions={actions} />
+        <div className="space-x-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => actions.setPagination(page - 1)}
+            disabled={page <= 1}
+          >
+            Previous
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => actions.setPagination(page + 1)}
+            disabled={page >= totalPages}
+          >
+            Next
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  // 全パーツを組み合わせたテーブル
+  const Table = (props: TableProps<Row, Mode, Columns>) => {
+    const { data, slots } = props;
+    const { totalCount, nextCursor } = props as TablePaginationProps;
+
+    const {
+      KeywordSearch: KeywordSearchSlot = KeywordSearch,
+      ColumnToggle: ColumnToggleSlot = ColumnToggle,
+      FilterChips: FilterChipsSlot = FilterChips,
+      SelectionBar: SelectionBarSlot = SelectionBar,
+      BulkActions,
+      Header: HeaderSlot = Header,
+      Body: BodySlot = Body,
+      Pagination: PaginationSlot = Pagination,
+    } = slots ?? {};
+
+    return (
+      <div className="flex flex-col gap-4">
+        <div className="flex items-center gap-4">
+          <KeywordSearchSlot />
+          <ColumnToggleSlot />
+        </div>
+
+        <FilterChipsSlot />
+
+        <SelectionBarSlot
+          data={data}
+          totalCount={totalCount}
+          BulkActions={BulkActions}
+        />
+
+        <ShadCNUiTable.Table>
+          <HeaderSlot data={data} />
+          <BodySlot data={data} />
+        </ShadCNUiTable.Table>
+
+        <PaginationSlot totalCount={totalCount} nextCursor={nextCursor} />
+      </div>
+    );
+  };
+
+  return Object.assign(Table, {
+    KeywordSearch,
+    ColumnToggle,
+    FilterChips,
+    SelectionBar,
+    Header,
+    Body,
+    Pagination,
+  });
+};
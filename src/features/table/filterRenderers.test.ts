@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from "vitest";
+import { createFilterRenderers } from "./filterRenderers";
+import { defineTableColumnFilter } from "./filterUtils";
+import { ColumnDefinition, TableState } from "./types";
+
+describe("createFilterRenderers", () => {
+  // フィルターポップアップに渡されたプロパティ
+  let popupProps: {
+    filter: number | null;
+    setFilter: (filter: number | null) => void;
+    onClose: () => void;
+  } | null = null;
+
+  const columnDefinitions = [
+    {
+      key: "id",
+      renderHeadCell: () => "ID",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: false,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<number>({
+        decodeFromUrl: (value: string) => parseInt(value),
+        encodeForUrl: (value: number) => value.toString(),
+        renderPopupContent: (props) => {
+          popupProps = props;
+          return "年齢";
+        },
+        renderFilterChipContent: ({ filter }) => `${filter}歳`,
+        initial: null,
+      }),
+    },
+  ] as const satisfies readonly ColumnDefinition[];
+
+  const createState = (
+    filter: TableState<typeof columnDefinitions>["filter"]
+  ): TableState<typeof columnDefinitions> => ({
+    keywordSearch: null,
+    sort: [],
+    columnVisibility: ["id", "age"],
+    columnOrder: ["id", "age"],
+    pinning: { left: [], right: [] },
+    columnWidths: {},
+    selection: { rowIds: [], allMatching: false },
+    expandedRowIds: [],
+    pagination: { page: 1, pageSize: 10 },
+    filter,
+  });
+
+  const { isFilterableColumn, renderFilterPopup, renderFilterChip } =
+    createFilterRenderers(columnDefinitions);
+
+  it("フィルター可能なカラムのみを判定する", () => {
+    expect(columnDefinitions.filter(isFilterableColumn)).toEqual([
+      columnDefinitions[1],
+    ]);
+  });
+
+  it("フィルターチップに現在のフィルター値を渡してレンダリングする", () => {
+    expect(renderFilterChip("age", createState({ age: 30 }))).toBe("30歳");
+  });
+
+  it("フィルターが未設定の場合はフィルターチップをレンダリングしない", () => {
+    expect(renderFilterChip("age", createState({ age: null }))).toBeNull();
+  });
+
+  it("フィルターポップアップに現在のフィルター値を渡す", () => {
+    renderFilterPopup("age", createState({ age: 30 }), {
+      setFilter: vi.fn(),
+    });
+
+    expect(popupProps?.filter).toBe(30);
+  });
+
+  it("フィルターポップアップからフィルターを設定するとアクションが呼ばれ、ポップアップが閉じる", () => {
+    const setFilter = vi.fn();
+    const onClose = vi.fn();
+    renderFilterPopup(
+      "age",
+      createState({ age: null }),
+      { setFilter },
+      { onClose }
+    );
+
+    popupProps?.setFilter(40);
+
+    expect(setFilter).toHaveBeenCalledWith("age", 40);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+});
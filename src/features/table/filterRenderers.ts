@@ -0,0 +1,106 @@
+import { ReactNode } from "react";
+import {
+  ColumnDefinition,
+  ColumnFilterDefinition,
+  FilterableColumnKeys,
+  FilterTypeByColumnKey,
+  TableState,
+} from "./types";
+
+/**
+ * カラム定義からフィルターのレンダリング関数を作成する
+ *
+ * カラムキーとフィルター条件の型の対応を保ったまま、
+ * `switch`なしでフィルターポップアップやチップをレンダリングできます。
+ *
+ * @param columnDefinitions カラム定義配列
+ * @returns フィルターのレンダリング関数
+ */
+export const createFilterRenderers = <
+  Columns extends readonly ColumnDefinition[]
+>(
+  columnDefinitions: Columns
+) => {
+  /**
+   * カラム定義がフィルター可能かどうかを判定する
+   *
+   * @param column カラム定義
+   * @returns フィルター可能な場合はtrue
+   */
+  const isFilterableColumn = (
+    column: Columns[number]
+  ): column is Columns[number] & {
+    key: FilterableColumnKeys<Columns>;
+    filter: ColumnFilterDefinition;
+  } => column.filter !== null;
+
+  /**
+   * フィルター可能なカラムの定義を取得する
+   *
+   * @param columnKey カラムキー
+   * @returns カラム定義
+   */
+  const findFilterableColumn = (columnKey: FilterableColumnKeys<Columns>) =>
+    columnDefinitions
+      .filter(isFilterableColumn)
+      .find((column) => column.key === columnKey);
+
+  /**
+   * フィルターポップアップの内容をレンダリングする
+   *
+   * @param columnKey カラムキー
+   * @param state テーブルの状態
+   * @param actions フィルターを設定するアクション
+   * @param options.onClose ポップアップを閉じる関数（フィルター設定後にも呼ばれる）
+   * @returns フィルターポップアップの内容
+   */
+  const renderFilterPopup = <K extends FilterableColumnKeys<Columns>>(
+    columnKey: K,
+    state: Pick<TableState<Columns>, "filter">,
+    actions: {
+      setFilter: (
+        columnKey: K,
+        filterValue: FilterTypeByColumnKey<Columns, K> | null
+      ) => void;
+    },
+    options?: { onClose?: () => void }
+  ): ReactNode => {
+    const column = findFilterableColumn(columnKey);
+    if (!column) return null;
+
+    const onClose = () => options?.onClose?.();
+
+    return column.filter.renderPopupContent({
+      filter: state.filter[columnKey] ?? null,
+      setFilter: (filter: FilterTypeByColumnKey<Columns, K> | null) => {
+        actions.setFilter(columnKey, filter);
+        onClose();
+      },
+      onClose,
+    });
+  };
+
+  /**
+   * フィルターチップの内容をレンダリングする
+   *
+   * @param columnKey カラムキー
+   * @param state テーブルの状態
+   * @returns フィルターチップの内容（フィルターが未設定の場合はnull）
+   */
+  const renderFilterChip = <K extends FilterableColumnKeys<Columns>>(
+    columnKey: K,
+    state: Pick<TableState<Columns>, "filter">
+  ): ReactNode => {
+    const column = findFilterableColumn(columnKey);
+    const filter = state.filter[columnKey];
+    if (!column || filter === null || filter === undefined) return null;
+
+    return column.filter.renderFilterChipContent({ filter });
+  };
+
+  return {
+    isFilterableColumn,
+    renderFilterPopup,
+    renderFilterChip,
+  };
+};
@@ -35,18 +35,26 @@ export function createFilterEncoderDecoder<
 /**
  * テーブルの列にフィルター機能を追加するための定義を作成します
  *
+ * `toQuery`でフィルター値をクエリに変換する場合は、2つ目の型引数にクエリの型を指定します。
+ * `predicate`の行の型は、`createTable<Row>()`のカラム定義の中で作成した場合はテーブルの行の型から推論されます
+ * （型引数を指定する場合は3つ目の型引数に行の型を指定します）。
+ *
  * @param columnFilterDefinition フィルター定義オブジェクト
  * @returns 完全なフィルター定義
  */
-export const defineTableColumnFilter = <FilterCondition>(
+export const defineTableColumnFilter = <
+  FilterCondition,
+  Query = v.NonNullable<FilterCondition>,
+  Row = unknown
+>(
   columnFilterDefinition: Omit<
-    ColumnFilterDefinition<FilterCondition>,
+    ColumnFilterDefinition<FilterCondition, Query, Row>,
     "encodeForUrl" | "decodeFromUrl"
   > & {
     encodeForUrl: ((filter: FilterCondition) => string) | undefined;
     decodeFromUrl: ((encoded: string) => FilterCondition | null) | undefined;
   }
-): ColumnFilterDefinition<FilterCondition> => ({
+): ColumnFilterDefinition<FilterCondition, Query, Row> => ({
   ...columnFilterDefinition,
   encodeForUrl:
     columnFilterDefinition.encodeForUrl ??
@@ -70,14 +78,16 @@ export const defineTableColumnFilter = <FilterCondition>(
  * @returns 完全なフィルター定義
  */
 export const defineTableColumnFilterWithSchema = <
-  TSchema extends v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>
+  TSchema extends v.BaseSchema<unknown, unknown, v.BaseIssue<unknown>>,
+  Query = v.NonNullable<v.InferOutput<TSchema>>,
+  Row = unknown
 >(
   schema: TSchema,
   columnFilterDefinition: Omit<
-    ColumnFilterDefinition<v.InferOutput<TSchema>>,
+    ColumnFilterDefinition<v.InferOutput<TSchema>, Query, Row>,
     "encodeForUrl" | "decodeFromUrl"
   >
-): ColumnFilterDefinition<v.InferOutput<TSchema>> => {
+): ColumnFilterDefinition<v.InferOutput<TSchema>, Query, Row> => {
   const { encodeForUrl, decodeFromUrl } =
     createFilterEncoderDecoder<TSchema>(schema);
 
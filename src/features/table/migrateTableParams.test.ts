@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { migrateTableParams } from "./migrateTableParams";
+import { getQueryKeys } from "./parseTableState";
+import { TableStateMigration } from "./types";
+
+describe("migrateTableParams", () => {
+  const queryKeys = getQueryKeys();
+
+  // v0 → v1: sort_byとsort_orderをsortにまとめる
+  const mergeSort: TableStateMigration = ({ sort_by, sort_order, ...params }) =>
+    sort_by ? { ...params, sort: `${sort_by}:${sort_order}` } : params;
+
+  // v1 → v2: カラムキーをyearsからageに変更する
+  const renameYears: TableStateMigration = ({ filter_years, ...params }) =>
+    filter_years ? { ...params, filter_age: filter_years } : params;
+
+  const migrations = [mergeSort, renameYears];
+
+  it("バージョンのないクエリパラメータにすべてのマイグレーションを適用する", () => {
+    const migrated = migrateTableParams(
+      new URLSearchParams({
+        tab: "users",
+        table_sort_by: "age",
+        table_sort_order: "desc",
+        table_filter_years: "20",
+      }),
+      queryKeys,
+      migrations
+    );
+
+    expect(Object.fromEntries(migrated)).toEqual({
+      tab: "users",
+      table_sort: "age:desc",
+      table_filter_age: "20",
+      table_v: "2",
+    });
+  });
+
+  it("バージョン以降のマイグレーションのみを適用する", () => {
+    const migrated = migrateTableParams(
+      new URLSearchParams({
+        table_v: "1",
+        // v1ではsort_byは使用していないため変換されない
+        table_sort_by: "age",
+        table_filter_years: "20",
+      }),
+      queryKeys,
+      migrations
+    );
+
+    expect(Object.fromEntries(migrated)).toEqual({
+      table_sort_by: "age",
+      table_filter_age: "20",
+      table_v: "2",
+    });
+  });
+
+  it("現在のバージョンの場合は同じインスタンスを返す", () => {
+    const searchParams = new URLSearchParams({
+      table_v: "2",
+      table_filter_years: "20",
+    });
+
+    expect(migrateTableParams(searchParams, queryKeys, migrations)).toBe(
+      searchParams
+    );
+  });
+
+  it("マイグレーションがない場合は同じインスタンスを返す", () => {
+    const searchParams = new URLSearchParams({ table_page: "2" });
+
+    expect(migrateTableParams(searchParams, queryKeys)).toBe(searchParams);
+  });
+
+  it("ほかのテーブルのクエリパラメータは変換しない", () => {
+    const migrated = migrateTableParams(
+      new URLSearchParams({ users_table_filter_years: "20" }),
+      queryKeys,
+      migrations
+    );
+
+    expect(migrated.get("users_table_filter_years")).toBe("20");
+  });
+});
@@ -0,0 +1,60 @@
+import type { getQueryKeys } from "./parseTableState";
+import { TableStateMigration } from "./types";
+
+/**
+ * クエリパラメータから状態のバージョンを取得する
+ *
+ * @param value バージョンのクエリパラメータの値
+ * @returns バージョン（ない場合や不正な値の場合は0）
+ */
+const parseVersion = (value: string | null): number => {
+  const version = Number(value ?? 0);
+  return Number.isInteger(version) && version >= 0 ? version : 0;
+};
+
+/**
+ * 古いバージョンの状態のクエリパラメータを現在のバージョンに変換する
+ *
+ * プレフィックスが一致するすべてのクエリパラメータ（現在は使用していないキーを含む）を
+ * マイグレーションに渡し、結果に現在のバージョンを付けて返します。
+ * マイグレーションが不要な場合は、引数のインスタンスをそのまま返します。
+ *
+ * @param searchParams クエリパラメータ
+ * @param queryKeys クエリパラメータのキー
+ * @param migrations マイグレーション
+ * @returns 現在のバージョンのクエリパラメータ
+ */
+export const migrateTableParams = (
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  migrations: readonly TableStateMigration[] = []
+): URLSearchParams => {
+  const version = parseVersion(searchParams.get(queryKeys.version));
+  // 新しいバージョンの状態はそのまま解析する
+  if (version >= migrations.length) return searchParams;
+
+  const keyPrefix = `${queryKeys.compact}_`;
+  const migrated = new URLSearchParams();
+  const params: Record<string, string> = {};
+
+  searchParams.forEach((value, key) => {
+    if (key === queryKeys.version) return;
+
+    if (key.startsWith(keyPrefix)) {
+      params[key.slice(keyPrefix.length)] = value;
+    } else {
+      migrated.append(key, value);
+    }
+  });
+
+  const migratedParams = migrations
+    .slice(version)
+    .reduce((current, migrate) => migrate(current), params);
+
+  Object.entries(migratedParams).forEach(([suffix, value]) => {
+    migrated.set(`${keyPrefix}${suffix}`, value);
+  });
+  migrated.set(queryKeys.version, String(migrations.length));
+
+  return migrated;
+};
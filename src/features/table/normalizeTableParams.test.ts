@@ -0,0 +1,156 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTableParams } from "./normalizeTableParams";
+import { defineTableColumnFilter } from "./filterUtils";
+import { getQueryKeys } from "./parseTableState";
+import { ColumnDefinition, TableOptions } from "./types";
+
+describe("normalizeTableParams", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      pinnable: true,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<number>({
+        decodeFromUrl: (value: string) => Number(value),
+        encodeForUrl: (value: number) => value.toString(),
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+    {
+      key: "status",
+      renderHeadCell: () => "ステータス",
+      sortable: false,
+      initialVisibility: false,
+      filter: defineTableColumnFilter<string>({
+        decodeFromUrl: (value: string) => value,
+        encodeForUrl: (value: string) => value,
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  const normalize = (params: string, options?: TableOptions) =>
+    normalizeTableParams(
+      new URLSearchParams(params),
+      getQueryKeys(options),
+      columnDefinitions,
+      options
+    ).toString();
+
+  it("デフォルト値のクエリパラメータを削除する", () => {
+    expect(
+      normalize(
+        "table_keyword=&table_sort=&table_columns=age,name&table_order=name,age&table_page=1&table_page_size=10",
+        { pageSizeOptions: [10, 20] }
+      )
+    ).toBe("");
+  });
+
+  it("デフォルト値でないクエリパラメータは残す", () => {
+    expect(
+      normalize("table_columns=name&table_page=2&table_page_size=20", {
+        pageSizeOptions: [10, 20],
+      })
+    ).toBe("table_columns=name&table_page=2&table_page_size=20");
+  });
+
+  it("テーブルのクエリパラメータを決まった順序に並べる", () => {
+    expect(
+      normalize(
+        "table_filter_status=active&table_page=2&table_filter_age=20&table_sort=age:desc&table_keyword=田中"
+      )
+    ).toBe(
+      new URLSearchParams([
+        ["table_keyword", "田中"],
+        ["table_sort", "age:desc"],
+        ["table_page", "2"],
+        ["table_filter_age", "20"],
+        ["table_filter_status", "active"],
+      ]).toString()
+    );
+  });
+
+  it("表示する列をカラム定義の順に並べる", () => {
+    expect(normalize("table_columns=status,name")).toBe(
+      "table_columns=name%2Cstatus"
+    );
+  });
+
+  it("固定する列を列の順序のあとに並べる", () => {
+    expect(normalize("table_pin_left=name&table_order=age,name,status")).toBe(
+      "table_order=age%2Cname%2Cstatus&table_pin_left=name"
+    );
+  });
+
+  it("列の順序はすべてのカラムを含めて残す", () => {
+    expect(normalize("table_order=status")).toBe(
+      "table_order=status%2Cname%2Cage"
+    );
+  });
+
+  it("以前の形式のソートを現在の形式に書き換える", () => {
+    expect(
+      normalize(
+        "tab=users&table_sort_by=name&table_sort_order=desc&table_page=1"
+      )
+    ).toBe("tab=users&table_sort=name%3Adesc");
+  });
+
+  it("未知のクエリパラメータと不正な値を削除し、テーブル以外のクエリパラメータは残す", () => {
+    expect(
+      normalize(
+        "tab=users&table_bogus=1&table_sort=email:asc,age:asc&table_filter_email=x&table_page=abc&other_table_page=3"
+      )
+    ).toBe("tab=users&other_table_page=3&table_sort=age%3Aasc");
+  });
+
+  it.each(["-1", "0", "abc1", "1.5", "02"])(
+    "不正なページ番号%sは1ページ目に正規化する",
+    (page) => {
+      expect(normalize(`tab=users&table_page=${page}`)).toBe("tab=users");
+    }
+  );
+
+  it("同じ状態からは同じクエリパラメータが得られる", () => {
+    expect(normalize("table_page=2&table_sort=name:asc")).toBe(
+      normalize("table_sort=name:asc&table_page=2&table_columns=name,age")
+    );
+  });
+
+  it("カーソルによるページネーションではページ番号を削除する", () => {
+    expect(
+      normalize("table_page=3&table_cursor=c2&table_cursor_stack=c1", {
+        paginationMode: "cursor",
+      })
+    ).toBe("table_cursor=c2&table_cursor_stack=c1");
+  });
+
+  it("マイグレーションがある場合はバージョンを付ける", () => {
+    expect(
+      normalize("table_v=1&table_page=2", {
+        migrations: [(params) => params],
+      })
+    ).toBe("table_page=2&table_v=1");
+  });
+
+  it("デフォルト値の状態のみの場合はバージョンも付けない", () => {
+    expect(
+      normalize("tab=users&table_v=1&table_page=1", {
+        migrations: [(params) => params],
+      })
+    ).toBe("tab=users");
+  });
+});
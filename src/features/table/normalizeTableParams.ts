@@ -0,0 +1,155 @@
+import {
+  encodeCursorStack,
+  encodeSort,
+  getQueryKeys,
+  parseTableStateWithDiagnostics,
+} from "./parseTableState";
+import { getPageSizeOptions, isCursorPagination } from "./pagination";
+import {
+  ColumnDefinition,
+  PaginationMode,
+  TableOptions,
+  TableState,
+} from "./types";
+
+/**
+ * テーブルのクエリパラメータを正規化する
+ *
+ * 同じ状態のテーブルから常に同じクエリパラメータが得られるように、次のように正規化します。
+ *
+ * - デフォルト値（1ページ目、デフォルトのページサイズ、初期表示の列、カラム定義の順の列など）のクエリパラメータを削除する
+ * - テーブルのクエリパラメータを決まった順序（フィルターはカラム定義の順）に並べる
+ * - 表示する列をカラム定義の順に並べる
+ * - プレフィックスが一致する未知のクエリパラメータや不正な値を削除する
+ *
+ * テーブル以外のクエリパラメータは元の順序のまま、テーブルのクエリパラメータより前に置きます。
+ *
+ * @param searchParams 展開・マイグレーション済みのクエリパラメータ
+ * @param queryKeys クエリパラメータのキー
+ * @param columnDefinitions カラム定義配列
+ * @param options テーブルのオプション
+ * @returns 正規化したクエリパラメータ
+ */
+export const normalizeTableParams = (
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: readonly ColumnDefinition[],
+  options?: TableOptions
+): URLSearchParams => {
+  const { state } = parseTableStateWithDiagnostics(
+    searchParams,
+    queryKeys,
+    columnDefinitions,
+    options
+  );
+
+  // テーブル以外のクエリパラメータ
+  const normalized = new URLSearchParams();
+  searchParams.forEach((value, key) => {
+    if (key !== queryKeys.compact && !key.startsWith(`${queryKeys.compact}_`)) {
+      normalized.append(key, value);
+    }
+  });
+
+  encodeTableState(state, queryKeys, columnDefinitions, options).forEach(
+    (value, key) => normalized.set(key, value)
+  );
+
+  return normalized;
+};
+
+/**
+ * テーブルの状態をクエリパラメータにエンコードする
+ *
+ * デフォルト値の状態は省略し、テーブルのクエリパラメータを決まった順序で並べます。
+ *
+ * @param state テーブルの状態
+ * @param queryKeys クエリパラメータのキー
+ * @param columnDefinitions カラム定義配列
+ * @param options テーブルのオプション
+ * @returns テーブルの状態のクエリパラメータ
+ */
+export const encodeTableState = (
+  state: TableState<readonly ColumnDefinition[], PaginationMode>,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: readonly ColumnDefinition[],
+  options?: TableOptions
+): URLSearchParams => {
+  const encoded = new URLSearchParams();
+  const set = (key: string, value: string | null) => {
+    if (value !== null) encoded.set(key, value);
+  };
+
+  // キーワード検索・ソート
+  set(queryKeys.keywordSearch, state.keywordSearch || null);
+  set(queryKeys.sort, encodeSort(state.sort));
+
+  // 列の表示/非表示（初期表示と同じ場合は省略）
+  const visibleKeys = columnDefinitions
+    .filter((col) => (state.columnVisibility as string[]).includes(col.key))
+    .map((col) => col.key);
+  const initialKeys = columnDefinitions
+    .filter((col) => col.initialVisibility)
+    .map((col) => col.key);
+  set(
+    queryKeys.columnVisibility,
+    visibleKeys.join(",") === initialKeys.join(",")
+      ? null
+      : visibleKeys.join(",")
+  );
+
+  // 列の順序（カラム定義の順と同じ場合は省略）
+  const columnOrder = state.columnOrder.join(",");
+  set(
+    queryKeys.columnOrder,
+    columnOrder === columnDefinitions.map((col) => col.key).join(",")
+      ? null
+      : columnOrder
+  );
+
+  // 固定する列
+  set(queryKeys.pinLeft, state.pinning.left.join(",") || null);
+  set(queryKeys.pinRight, state.pinning.right.join(",") || null);
+
+  // 最後に展開した行（URLに保存する場合のみ）
+  if (options?.expansion?.persistInUrl) {
+    set(
+      queryKeys.expandedRow,
+      state.expandedRowIds[state.expandedRowIds.length - 1] ?? null
+    );
+  }
+
+  // ページネーション（1ページ目・デフォルトのページサイズは省略）
+  const { pagination } = state;
+  if (isCursorPagination(pagination)) {
+    set(queryKeys.cursor, pagination.cursor);
+    set(queryKeys.cursorStack, encodeCursorStack(pagination.cursorStack));
+  } else {
+    set(queryKeys.page, pagination.page === 1 ? null : String(pagination.page));
+  }
+  set(
+    queryKeys.pageSize,
+    pagination.pageSize === getPageSizeOptions(options)[0]
+      ? null
+      : String(pagination.pageSize)
+  );
+
+  // フィルター（未設定のフィルターは省略）
+  columnDefinitions.forEach((col) => {
+    const filter: unknown = (state.filter as Record<string, unknown>)[col.key];
+    if (col.filter === null || filter === null || filter === undefined) return;
+
+    set(`${queryKeys.filterPrefix}${col.key}`, col.filter.encodeForUrl(filter));
+  });
+
+  // 状態のバージョン（デフォルト値のみの場合は変換する状態がないため省略）
+  if (
+    options?.migrations &&
+    options.migrations.length > 0 &&
+    encoded.toString() !== ""
+  ) {
+    set(queryKeys.version, String(options.migrations.length));
+  }
+
+  return encoded;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import {
+  getPageForPageSize,
+  getPageSizeOptions,
+  getPaginationInfo,
+  isCursorPagination,
+} from "./pagination";
+
+describe("getPageSizeOptions", () => {
+  it("指定がない場合はデフォルトの選択肢を返す", () => {
+    expect(getPageSizeOptions()).toEqual([10]);
+  });
+
+  it("空の選択肢が指定された場合はデフォルトの選択肢を返す", () => {
+    expect(getPageSizeOptions({ pageSizeOptions: [] })).toEqual([10]);
+  });
+
+  it("指定された選択肢を返す", () => {
+    expect(getPageSizeOptions({ pageSizeOptions: [20, 50] })).toEqual([20, 50]);
+  });
+});
+
+describe("getPageForPageSize", () => {
+  it("変更前のページの先頭の行が含まれるページを返す", () => {
+    // 41件目から表示している
+    expect(getPageForPageSize({ page: 5, pageSize: 10 }, 20)).toBe(3);
+    expect(getPageForPageSize({ page: 3, pageSize: 20 }, 10)).toBe(5);
+  });
+
+  it("1ページ目は常に1ページ目になる", () => {
+    expect(getPageForPageSize({ page: 1, pageSize: 10 }, 50)).toBe(1);
+  });
+});
+
+describe("getPaginationInfo", () => {
+  it("オフセットと取得件数を計算する", () => {
+    expect(getPaginationInfo({ page: 3, pageSize: 20 })).toMatchObject({
+      offset: 40,
+      limit: 20,
+    });
+  });
+
+  it("全件数から総ページ数を計算する", () => {
+    expect(getPaginationInfo({ page: 1, pageSize: 10 }, 95).totalPages).toBe(
+      10
+    );
+  });
+
+  it("0件の場合は総ページ数を1とする", () => {
+    expect(getPaginationInfo({ page: 1, pageSize: 10 }, 0).totalPages).toBe(1);
+  });
+});
+
+describe("isCursorPagination", () => {
+  it("カーソルによるページネーションを判定する", () => {
+    expect(
+      isCursorPagination({ cursor: null, cursorStack: [], pageSize: 10 })
+    ).toBe(true);
+    expect(isCursorPagination({ page: 1, pageSize: 10 })).toBe(false);
+  });
+});
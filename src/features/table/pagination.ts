@@ -0,0 +1,59 @@
+import { CursorPagination, OffsetPagination, TableOptions } from "./types";
+
+/**
+ * ページサイズの選択肢のデフォルト値
+ */
+const DEFAULT_PAGE_SIZE_OPTIONS = [10] as const;
+
+/**
+ * オプションからページサイズの選択肢を取得する
+ *
+ * @param options テーブルのオプション
+ * @returns ページサイズの選択肢（先頭がデフォルトのページサイズ）
+ */
+export const getPageSizeOptions = (options?: TableOptions): readonly number[] =>
+  options?.pageSizeOptions && options.pageSizeOptions.length > 0
+    ? options.pageSizeOptions
+    : DEFAULT_PAGE_SIZE_OPTIONS;
+
+/**
+ * カーソルによるページネーションかどうかを判定する
+ *
+ * @param pagination ページネーション
+ * @returns カーソルによるページネーションの場合はtrue
+ */
+export const isCursorPagination = (
+  pagination: OffsetPagination | CursorPagination
+): pagination is CursorPagination => "cursor" in pagination;
+
+/**
+ * ページサイズを変更したときのページ番号を計算する
+ *
+ * 変更前のページの先頭の行が含まれるページを返します。
+ *
+ * @param pagination 変更前のページネーション
+ * @param pageSize 変更後のページサイズ
+ * @returns 変更後のページ番号
+ */
+export const getPageForPageSize = (
+  pagination: OffsetPagination,
+  pageSize: number
+): number =>
+  Math.floor(((pagination.page - 1) * pagination.pageSize) / pageSize) + 1;
+
+/**
+ * ページネーションからデータ取得に必要な値を導出する
+ *
+ * @param pagination ページネーション
+ * @param totalCount 全件数（totalPagesの計算に使用）
+ * @returns オフセット、取得件数、総ページ数
+ */
+export const getPaginationInfo = (
+  pagination: OffsetPagination,
+  totalCount = 0
+) => ({
+  offset: (pagination.page - 1) * pagination.pageSize,
+  limit: pagination.pageSize,
+  // 0件の場合も1ページとして扱う
+  totalPages: Math.max(1, Math.ceil(totalCount / pagination.pageSize)),
+});
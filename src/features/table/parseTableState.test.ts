@@ -1,5 +1,14 @@
 import { describe, expect, it } from "vitest";
-import { getQueryKeys, parseTableState } from "./parseTableState";
+import {
+  encodeCursorStack,
+  encodeSort,
+  getQueryKeyPrefix,
+  getQueryKeys,
+  parseTableState,
+  parseTableStateWithDiagnostics,
+  toSearchParams,
+} from "./parseTableState";
+import { packCompactParams } from "./compactParams";
 import { ColumnDefinition } from "./types";
 import { defineTableColumnFilter } from "./filterUtils";
 
@@ -8,11 +17,19 @@ describe("getQueryKeys", () => {
     const keys = getQueryKeys();
     expect(keys).toEqual({
       keywordSearch: "table_keyword",
-      sortBy: "table_sort_by",
-      sortOrder: "table_sort_order",
+      sort: "table_sort",
       columnVisibility: "table_columns",
+      columnOrder: "table_order",
+      pinLeft: "table_pin_left",
+      pinRight: "table_pin_right",
+      expandedRow: "table_expanded",
       page: "table_page",
+      pageSize: "table_page_size",
+      cursor: "table_cursor",
+      cursorStack: "table_cursor_stack",
       filterPrefix: "table_filter_",
+      compact: "table",
+      version: "table_v",
     });
   });
 
@@ -20,13 +37,37 @@ describe("getQueryKeys", () => {
     const keys = getQueryKeys({ queryParamPrefix: "custom" });
     expect(keys).toEqual({
       keywordSearch: "custom_keyword",
-      sortBy: "custom_sort_by",
-      sortOrder: "custom_sort_order",
+      sort: "custom_sort",
       columnVisibility: "custom_columns",
+      columnOrder: "custom_order",
+      pinLeft: "custom_pin_left",
+      pinRight: "custom_pin_right",
+      expandedRow: "custom_expanded",
       page: "custom_page",
+      pageSize: "custom_page_size",
+      cursor: "custom_cursor",
+      cursorStack: "custom_cursor_stack",
       filterPrefix: "custom_filter_",
+      compact: "custom",
+      version: "custom_v",
     });
   });
+
+  it("テーブル名でキーを名前空間に分ける", () => {
+    const keys = getQueryKeys({ tableName: "users" });
+    expect(keys.keywordSearch).toBe("users_table_keyword");
+    expect(keys.filterPrefix).toBe("users_table_filter_");
+  });
+});
+
+describe("getQueryKeyPrefix", () => {
+  it("テーブル名をプレフィックスの先頭に付ける", () => {
+    expect(getQueryKeyPrefix()).toBe("table");
+    expect(getQueryKeyPrefix({ tableName: "users" })).toBe("users_table");
+    expect(
+      getQueryKeyPrefix({ tableName: "users", queryParamPrefix: "t" })
+    ).toBe("users_t");
+  });
 });
 
 describe("parseTableState", () => {
@@ -75,10 +116,15 @@ describe("parseTableState", () => {
 
     expect(state).toEqual({
       keywordSearch: null,
-      sort: { sortBy: null, sortOrder: null },
+      sort: [],
       columnVisibility: ["id", "name"],
-      pagination: 1,
-      filter: {},
+      columnOrder: ["id", "name", "age"],
+      pinning: { left: [], right: [] },
+      columnWidths: {},
+      selection: { rowIds: [], allMatching: false },
+      expandedRowIds: [],
+      pagination: { page: 1, pageSize: 10 },
+      filter: { name: null, age: null },
     });
   });
 
@@ -92,38 +138,73 @@ describe("parseTableState", () => {
 
   it("ソートパラメータを正しく解析する", () => {
     const searchParams = new URLSearchParams();
-    searchParams.set(queryKeys.sortBy, "id");
-    searchParams.set(queryKeys.sortOrder, "desc");
+    searchParams.set(queryKeys.sort, "id:desc");
 
     const state = parseTableState(searchParams, queryKeys, columnDefinitions);
-    expect(state.sort).toEqual({
-      sortBy: "id",
-      sortOrder: "desc",
-    });
+    expect(state.sort).toEqual([{ sortBy: "id", sortOrder: "desc" }]);
+  });
+
+  it("複数カラムのソートを優先度の順に解析する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.sort, "name:desc,id:asc");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions);
+    expect(state.sort).toEqual([
+      { sortBy: "name", sortOrder: "desc" },
+      { sortBy: "id", sortOrder: "asc" },
+    ]);
   });
 
   it("無効なソートカラムを無視する", () => {
     const searchParams = new URLSearchParams();
-    searchParams.set(queryKeys.sortBy, "invalid_column");
-    searchParams.set(queryKeys.sortOrder, "asc");
+    searchParams.set(queryKeys.sort, "invalid_column:asc,id:asc");
 
     const state = parseTableState(searchParams, queryKeys, columnDefinitions);
-    expect(state.sort).toEqual({
-      sortBy: null,
-      sortOrder: "asc",
-    });
+    expect(state.sort).toEqual([{ sortBy: "id", sortOrder: "asc" }]);
+  });
+
+  it("ソート可能でないカラムを無視する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.sort, "age:asc,name:desc");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions);
+    expect(state.sort).toEqual([{ sortBy: "name", sortOrder: "desc" }]);
   });
 
   it("無効なソート順を無視する", () => {
     const searchParams = new URLSearchParams();
-    searchParams.set(queryKeys.sortBy, "id");
-    searchParams.set(queryKeys.sortOrder, "invalid_order");
+    searchParams.set(queryKeys.sort, "id:invalid_order,name");
 
     const state = parseTableState(searchParams, queryKeys, columnDefinitions);
-    expect(state.sort).toEqual({
-      sortBy: "id",
-      sortOrder: null,
-    });
+    expect(state.sort).toEqual([]);
+  });
+
+  it("重複したソートカラムは最初の指定を使用する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.sort, "id:asc,id:desc");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions);
+    expect(state.sort).toEqual([{ sortBy: "id", sortOrder: "asc" }]);
+  });
+
+  it("以前の形式（sort_byとsort_order）のソートを1つのソート条件として解析する", () => {
+    const state = parseTableState(
+      new URLSearchParams("table_sort_by=name&table_sort_order=desc"),
+      queryKeys,
+      columnDefinitions
+    );
+    expect(state.sort).toEqual([{ sortBy: "name", sortOrder: "desc" }]);
+
+    // 現在の形式のソート条件を優先する
+    expect(
+      parseTableState(
+        new URLSearchParams(
+          "table_sort_by=name&table_sort_order=desc&table_sort=id:asc"
+        ),
+        queryKeys,
+        columnDefinitions
+      ).sort
+    ).toEqual([{ sortBy: "id", sortOrder: "asc" }]);
   });
 
   it("カラム表示設定を正しく解析する", () => {
@@ -142,12 +223,20 @@ describe("parseTableState", () => {
     expect(state.columnVisibility).toEqual(["id", "name"]);
   });
 
+  it("列の順序を解析し、指定のないカラムをカラム定義の順に末尾に追加する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.columnOrder, "age,id");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions);
+    expect(state.columnOrder).toEqual(["age", "id", "name"]);
+  });
+
   it("ページネーションを正しく解析する", () => {
     const searchParams = new URLSearchParams();
     searchParams.set(queryKeys.page, "5");
 
     const state = parseTableState(searchParams, queryKeys, columnDefinitions);
-    expect(state.pagination).toBe(5);
+    expect(state.pagination).toEqual({ page: 5, pageSize: 10 });
   });
 
   it("無効なページ番号はデフォルト値を使用する", () => {
@@ -155,7 +244,68 @@ describe("parseTableState", () => {
     searchParams.set(queryKeys.page, "invalid_page");
 
     const state = parseTableState(searchParams, queryKeys, columnDefinitions);
-    expect(state.pagination).toBe(1);
+    expect(state.pagination).toEqual({ page: 1, pageSize: 10 });
+  });
+
+  it.each(["-1", "0", "abc1", "1.5", "02", ""])(
+    "1以上の整数でないページ番号%sはデフォルト値を使用する",
+    (page) => {
+      const searchParams = new URLSearchParams();
+      searchParams.set(queryKeys.page, page);
+
+      const state = parseTableState(searchParams, queryKeys, columnDefinitions);
+      expect(state.pagination).toEqual({ page: 1, pageSize: 10 });
+    }
+  );
+
+  it("選択肢に含まれるページサイズを解析する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.pageSize, "50");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions, {
+      pageSizeOptions: [20, 50],
+    });
+    expect(state.pagination).toEqual({ page: 1, pageSize: 50 });
+  });
+
+  it("選択肢に含まれないページサイズは先頭の選択肢を使用する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.pageSize, "30");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions, {
+      pageSizeOptions: [20, 50],
+    });
+    expect(state.pagination).toEqual({ page: 1, pageSize: 20 });
+  });
+
+  it("カーソルによるページネーションを解析する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.page, "3");
+    searchParams.set(queryKeys.cursor, "c3");
+    searchParams.set(queryKeys.cursorStack, "c1,c%2C2");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions, {
+      paginationMode: "cursor",
+    });
+    expect(state.pagination).toEqual({
+      cursor: "c3",
+      cursorStack: ["c1", "c,2"],
+      pageSize: 10,
+    });
+  });
+
+  it("カーソルがない場合は最初のページとして解析する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.cursorStack, "c1");
+
+    const state = parseTableState(searchParams, queryKeys, columnDefinitions, {
+      paginationMode: "cursor",
+    });
+    expect(state.pagination).toEqual({
+      cursor: null,
+      cursorStack: [],
+      pageSize: 10,
+    });
   });
 
   it("フィルターを正しく解析する", () => {
@@ -170,11 +320,30 @@ describe("parseTableState", () => {
     });
   });
 
+  it("persistInUrlを指定した場合のみ展開した行を解析する", () => {
+    const searchParams = new URLSearchParams();
+    searchParams.set(queryKeys.expandedRow, "row-1");
+
+    const expansion = {
+      getRowId: (row: { id: string }) => row.id,
+      renderExpandedRow: () => null,
+    };
+    expect(
+      parseTableState(searchParams, queryKeys, columnDefinitions, {
+        expansion: { ...expansion, persistInUrl: true },
+      }).expandedRowIds
+    ).toEqual(["row-1"]);
+    expect(
+      parseTableState(searchParams, queryKeys, columnDefinitions, {
+        expansion,
+      }).expandedRowIds
+    ).toEqual([]);
+  });
+
   it("複数パラメータを組み合わせて解析する", () => {
     const searchParams = new URLSearchParams();
     searchParams.set(queryKeys.keywordSearch, "キーワード");
-    searchParams.set(queryKeys.sortBy, "name");
-    searchParams.set(queryKeys.sortOrder, "asc");
+    searchParams.set(queryKeys.sort, "name:asc");
     searchParams.set(queryKeys.columnVisibility, "id,name,age");
     searchParams.set(queryKeys.page, "3");
     searchParams.set(`${queryKeys.filterPrefix}name`, "田中");
@@ -182,10 +351,558 @@ describe("parseTableState", () => {
     const state = parseTableState(searchParams, queryKeys, columnDefinitions);
     expect(state).toEqual({
       keywordSearch: "キーワード",
-      sort: { sortBy: "name", sortOrder: "asc" },
+      sort: [{ sortBy: "name", sortOrder: "asc" }],
       columnVisibility: ["id", "name", "age"],
-      pagination: 3,
-      filter: { name: "田中" },
+      columnOrder: ["id", "name", "age"],
+      pinning: { left: [], right: [] },
+      columnWidths: {},
+      selection: { rowIds: [], allMatching: false },
+      expandedRowIds: [],
+      pagination: { page: 3, pageSize: 10 },
+      filter: { name: "田中", age: null },
     });
   });
 });
+
+describe("parseTableStateWithDiagnostics", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      pinnable: true,
+    },
+    {
+      key: "status",
+      renderHeadCell: () => "ステータス",
+      sortable: false,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<"active" | "inactive">({
+        decodeFromUrl: (value: string) =>
+          value === "active" || value === "inactive" ? value : null,
+        encodeForUrl: (value) => value,
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  const parse = (params: Record<string, string>, options = {}) =>
+    parseTableStateWithDiagnostics(
+      new URLSearchParams(params),
+      getQueryKeys(options),
+      columnDefinitions,
+      options
+    );
+
+  it("問題がない場合は空の一覧を返す", () => {
+    const { issues, fixes } = parse({
+      table_sort: "name:asc",
+      table_columns: "name",
+      table_page: "2",
+      table_filter_status: "active",
+    });
+
+    expect(issues).toEqual([]);
+    expect(fixes).toEqual({});
+  });
+
+  it("無視したソート条件を理由とカラムとともに報告する", () => {
+    const { state, issues, fixes } = parse({
+      table_sort: "email:asc,status:asc,name:up,name:desc,name:asc",
+    });
+
+    expect(state.sort).toEqual([{ sortBy: "name", sortOrder: "desc" }]);
+    expect(issues).toEqual([
+      {
+        key: "table_sort",
+        value: "email:asc,status:asc,name:up,name:desc,name:asc",
+        reason: "unknownColumn",
+        column: "email",
+      },
+      {
+        key: "table_sort",
+        value: "email:asc,status:asc,name:up,name:desc,name:asc",
+        reason: "notSortable",
+        column: "status",
+      },
+      {
+        key: "table_sort",
+        value: "email:asc,status:asc,name:up,name:desc,name:asc",
+        reason: "invalidSortOrder",
+        column: "name",
+      },
+      {
+        key: "table_sort",
+        value: "email:asc,status:asc,name:up,name:desc,name:asc",
+        reason: "duplicateSort",
+        column: "name",
+      },
+    ]);
+    // 有効なソート条件のみを残す
+    expect(fixes).toEqual({ table_sort: "name:desc" });
+  });
+
+  it("存在しない表示列を報告する", () => {
+    const { issues, fixes } = parse({ table_columns: "name,email" });
+
+    expect(issues).toEqual([
+      {
+        key: "table_columns",
+        value: "name,email",
+        reason: "unknownColumn",
+        column: "email",
+      },
+    ]);
+    expect(fixes).toEqual({ table_columns: "name" });
+  });
+
+  it("列の順序の存在しないカラムと重複したカラムを報告する", () => {
+    const { state, issues, fixes } = parse({
+      table_order: "status,email,status",
+    });
+
+    expect(state.columnOrder).toEqual(["status", "name"]);
+    expect(issues).toEqual([
+      {
+        key: "table_order",
+        value: "status,email,status",
+        reason: "unknownColumn",
+        column: "email",
+      },
+      {
+        key: "table_order",
+        value: "status,email,status",
+        reason: "duplicateColumn",
+        column: "status",
+      },
+    ]);
+    expect(fixes).toEqual({ table_order: "status" });
+  });
+
+  it("固定する列を解析し、固定できない列と重複した列を報告する", () => {
+    const { state, issues, fixes } = parse({
+      table_pin_left: "name,status",
+      table_pin_right: "name",
+    });
+
+    expect(state.pinning).toEqual({ left: ["name"], right: [] });
+    expect(issues).toEqual([
+      {
+        key: "table_pin_left",
+        value: "name,status",
+        reason: "notPinnable",
+        column: "status",
+      },
+      {
+        key: "table_pin_right",
+        value: "name",
+        reason: "duplicateColumn",
+        column: "name",
+      },
+    ]);
+    expect(fixes).toEqual({ table_pin_left: "name", table_pin_right: null });
+  });
+
+  it("デコードできないフィルターを報告する", () => {
+    const { state, issues, fixes } = parse({ table_filter_status: "deleted" });
+
+    expect(state.filter.status).toBeUndefined();
+    expect(issues).toEqual([
+      {
+        key: "table_filter_status",
+        value: "deleted",
+        reason: "invalidFilter",
+        column: "status",
+      },
+    ]);
+    expect(fixes).toEqual({ table_filter_status: null });
+  });
+
+  it("存在しないカラムとフィルターのないカラムのフィルターを報告する", () => {
+    const { state, issues, fixes } = parse({
+      table_filter_email: "x",
+      table_filter_name: "山田",
+    });
+
+    expect(state.filter).toEqual({ status: null });
+    expect(issues).toEqual([
+      {
+        key: "table_filter_email",
+        value: "x",
+        reason: "unknownColumn",
+        column: "email",
+      },
+      {
+        key: "table_filter_name",
+        value: "山田",
+        reason: "notFilterable",
+        column: "name",
+      },
+    ]);
+    expect(fixes).toEqual({
+      table_filter_email: null,
+      table_filter_name: null,
+    });
+  });
+
+  it("フィルターのデコード中の例外を報告する", () => {
+    const { issues } = parseTableStateWithDiagnostics(
+      new URLSearchParams({ table_filter_status: "x" }),
+      getQueryKeys(),
+      [
+        {
+          key: "status",
+          renderHeadCell: () => "ステータス",
+          sortable: false,
+          initialVisibility: true,
+          filter: defineTableColumnFilter<string>({
+            decodeFromUrl: () => {
+              throw new Error("decode error");
+            },
+            encodeForUrl: (value: string) => value,
+            renderPopupContent: () => null,
+            renderFilterChipContent: () => null,
+            initial: null,
+          }),
+        },
+      ]
+    );
+
+    expect(issues).toEqual([
+      {
+        key: "table_filter_status",
+        value: "x",
+        reason: "invalidFilter",
+        column: "status",
+      },
+    ]);
+  });
+
+  it("不正なページ番号とページサイズを報告する", () => {
+    const { issues, fixes } = parse(
+      { table_page: "abc", table_page_size: "30" },
+      { pageSizeOptions: [10, 20] }
+    );
+
+    expect(issues.map((issue) => issue.reason)).toEqual([
+      "invalidPageSize",
+      "invalidPage",
+    ]);
+    expect(fixes).toEqual({ table_page: null, table_page_size: null });
+  });
+
+  it.each(["-1", "0", "abc1", "1.5"])(
+    "1以上の整数でないページ番号%sを報告する",
+    (page) => {
+      const { issues } = parse({ table_page: page });
+
+      expect(issues).toEqual([
+        { key: "table_page", value: page, reason: "invalidPage" },
+      ]);
+    }
+  );
+
+  it("デコードできないカーソルを報告する", () => {
+    const { state, issues, fixes } = parse(
+      { table_cursor: "c2", table_cursor_stack: "c1,%E0%A4%A" },
+      { paginationMode: "cursor" }
+    );
+
+    expect(state.pagination).toEqual({
+      cursor: "c2",
+      cursorStack: ["c1"],
+      pageSize: 10,
+    });
+    expect(issues.map((issue) => issue.reason)).toEqual(["invalidCursor"]);
+    expect(fixes).toEqual({ table_cursor_stack: "c1" });
+  });
+});
+
+describe("1つのクエリパラメータにまとめた状態の解析", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  it("まとめた状態と状態ごとのクエリパラメータを同じように解析する", () => {
+    const queryKeys = getQueryKeys();
+    const params = new URLSearchParams({
+      table_keyword: "田中",
+      table_sort: "name:desc",
+      table_page: "2",
+    });
+
+    expect(
+      parseTableState(
+        packCompactParams(params, queryKeys),
+        queryKeys,
+        columnDefinitions
+      )
+    ).toEqual(parseTableState(params, queryKeys, columnDefinitions));
+  });
+});
+
+describe("古いバージョンの状態の解析", () => {
+  const columnDefinitions = [
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<{ min: number; max: number }>({
+        decodeFromUrl: (value: string) => {
+          const [min, max] = value.split("~").map(Number);
+          return { min, max };
+        },
+        encodeForUrl: (value) => `${value.min}~${value.max}`,
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  const options = {
+    migrations: [
+      // v0 → v1: カラムキーをyearsからageに変更し、フィルターの形式を"20-30"から"20~30"に変更
+      ({ filter_years, sort, ...params }: Record<string, string>) => ({
+        ...params,
+        ...(sort && { sort: sort.replace("years", "age") }),
+        ...(filter_years && { filter_age: filter_years.replace("-", "~") }),
+      }),
+    ],
+  };
+
+  it("マイグレーションを適用してから解析する", () => {
+    const state = parseTableState(
+      new URLSearchParams({
+        table_sort: "years:desc",
+        table_filter_years: "20-30",
+      }),
+      getQueryKeys(options),
+      columnDefinitions,
+      options
+    );
+
+    expect(state.sort).toEqual([{ sortBy: "age", sortOrder: "desc" }]);
+    expect(state.filter.age).toEqual({ min: 20, max: 30 });
+  });
+
+  it("現在のバージョンの状態にはマイグレーションを適用しない", () => {
+    const state = parseTableState(
+      new URLSearchParams({ table_v: "1", table_filter_age: "20~30" }),
+      getQueryKeys(options),
+      columnDefinitions,
+      options
+    );
+
+    expect(state.filter.age).toEqual({ min: 20, max: 30 });
+  });
+});
+
+describe("1つのURLSearchParamsに複数のテーブルがある場合", () => {
+  const userColumns = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<number>({
+        decodeFromUrl: (value: string) => parseInt(value),
+        encodeForUrl: (value: number) => value.toString(),
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  const orderColumns = [
+    {
+      key: "title",
+      renderHeadCell: () => "件名",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "経過日数",
+      sortable: false,
+      initialVisibility: false,
+      filter: defineTableColumnFilter<number>({
+        decodeFromUrl: (value: string) => parseInt(value),
+        encodeForUrl: (value: number) => value.toString(),
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  const userOptions = { tableName: "users" };
+  const orderOptions = { tableName: "orders" };
+
+  const searchParams = new URLSearchParams({
+    users_table_keyword: "田中",
+    users_table_sort: "age:desc",
+    users_table_page: "2",
+    users_table_filter_age: "30",
+    orders_table_keyword: "返品",
+    orders_table_sort: "title:asc",
+    orders_table_columns: "title,age",
+    orders_table_filter_age: "7",
+  });
+
+  it("それぞれのテーブルが自分のキーのみを解析する", () => {
+    const userState = parseTableState(
+      searchParams,
+      getQueryKeys(userOptions),
+      userColumns,
+      userOptions
+    );
+    const orderState = parseTableState(
+      searchParams,
+      getQueryKeys(orderOptions),
+      orderColumns,
+      orderOptions
+    );
+
+    expect(userState).toEqual({
+      keywordSearch: "田中",
+      sort: [{ sortBy: "age", sortOrder: "desc" }],
+      columnVisibility: ["name", "age"],
+      columnOrder: ["name", "age"],
+      pinning: { left: [], right: [] },
+      columnWidths: {},
+      selection: { rowIds: [], allMatching: false },
+      expandedRowIds: [],
+      pagination: { page: 2, pageSize: 10 },
+      filter: { age: 30 },
+    });
+    expect(orderState).toEqual({
+      keywordSearch: "返品",
+      sort: [{ sortBy: "title", sortOrder: "asc" }],
+      columnVisibility: ["title", "age"],
+      columnOrder: ["title", "age"],
+      pinning: { left: [], right: [] },
+      columnWidths: {},
+      selection: { rowIds: [], allMatching: false },
+      expandedRowIds: [],
+      pagination: { page: 1, pageSize: 10 },
+      filter: { age: 7 },
+    });
+  });
+
+  it("テーブル名のないテーブルはほかのテーブルのキーを読まない", () => {
+    const state = parseTableState(searchParams, getQueryKeys(), userColumns);
+
+    expect(state.keywordSearch).toBeNull();
+    expect(state.sort).toEqual([]);
+    expect(state.pagination).toEqual({ page: 1, pageSize: 10 });
+    expect(state.filter.age).toBeNull();
+  });
+
+  it("すべてのテーブルのキーが重複しない", () => {
+    const userKeys = Object.values(getQueryKeys(userOptions));
+    const orderKeys = Object.values(getQueryKeys(orderOptions));
+
+    expect(userKeys.filter((key) => orderKeys.includes(key))).toEqual([]);
+  });
+});
+
+describe("encodeSort", () => {
+  it("ソート条件を優先度の順にエンコードする", () => {
+    expect(
+      encodeSort([
+        { sortBy: "age", sortOrder: "desc" },
+        { sortBy: "name", sortOrder: "asc" },
+      ])
+    ).toBe("age:desc,name:asc");
+  });
+
+  it("ソート条件がない場合はnullを返す", () => {
+    expect(encodeSort([])).toBeNull();
+  });
+});
+
+describe("encodeCursorStack", () => {
+  it("各カーソルをURIエンコードして連結する", () => {
+    expect(encodeCursorStack(["c1", "c,2"])).toBe("c1,c%2C2");
+  });
+
+  it("スタックが空の場合はnullを返す", () => {
+    expect(encodeCursorStack([])).toBeNull();
+  });
+});
+
+describe("toSearchParams", () => {
+  it("ParsedUrlQueryを変換する（配列の値はすべて追加する）", () => {
+    const searchParams = toSearchParams({
+      table_keyword: "田中",
+      table_filter_status: ["active", "inactive"],
+      table_page: undefined,
+    });
+    expect(searchParams.get("table_keyword")).toBe("田中");
+    expect(searchParams.getAll("table_filter_status")).toEqual([
+      "active",
+      "inactive",
+    ]);
+    expect(searchParams.has("table_page")).toBe(false);
+  });
+
+  it("queryを持つリクエストから変換する", () => {
+    const searchParams = toSearchParams({
+      query: { table_sort: "age:desc" },
+    });
+    expect(searchParams.get("table_sort")).toBe("age:desc");
+  });
+
+  it("urlを持つリクエストから変換する", () => {
+    const searchParams = toSearchParams({
+      url: "/api/users?table_page=2&table_keyword=%E7%94%B0%E4%B8%AD",
+      headers: {},
+    });
+    expect(searchParams.get("table_page")).toBe("2");
+    expect(searchParams.get("table_keyword")).toBe("田中");
+  });
+
+  it("urlがないリクエストは空のパラメータになる", () => {
+    expect(toSearchParams({ headers: {} }).toString()).toBe("");
+  });
+
+  it("queryという名前の文字列パラメータはParsedUrlQueryとして扱う", () => {
+    const searchParams = toSearchParams({ query: "foo" });
+    expect(searchParams.get("query")).toBe("foo");
+  });
+
+  it("headersという名前の配列のパラメータはParsedUrlQueryとして扱う", () => {
+    const searchParams = toSearchParams({
+      headers: ["a", "b"],
+      table_keyword: "x",
+    });
+    expect(searchParams.getAll("headers")).toEqual(["a", "b"]);
+    expect(searchParams.get("table_keyword")).toBe("x");
+  });
+
+  it("URLSearchParamsはそのまま返す", () => {
+    const searchParams = new URLSearchParams("table_page=3");
+    expect(toSearchParams(searchParams)).toBe(searchParams);
+  });
+});
@@ -2,10 +2,37 @@ import {
   ColumnDefinition,
   ExtractColumnKeys,
   SortableColumnKeys,
+  SortDescriptor,
+  SortOrder,
+  PinnableColumnKeys,
+  ColumnPinning,
   FilterTypeMap,
   TableOptions,
   TableState,
+  PaginationMode,
+  PaginationByMode,
+  OffsetPagination,
+  CursorPagination,
+  TableStateRequestSource,
+  TableStateIssue,
 } from "./types";
+import { getPageSizeOptions } from "./pagination";
+import { expandCompactParams } from "./compactParams";
+import { migrateTableParams } from "./migrateTableParams";
+import { emptyRowSelection } from "./rowSelection";
+
+/**
+ * テーブルのクエリパラメータのキーに共通するプレフィックスを取得する
+ *
+ * `tableName`が設定されている場合は`${tableName}_`が先頭に付きます。
+ *
+ * @param options テーブルのオプション
+ * @returns プレフィックス（デフォルトは"table"）
+ */
+export const getQueryKeyPrefix = (options?: TableOptions) => {
+  const prefix = options?.queryParamPrefix ?? "table";
+  return options?.tableName ? `${options.tableName}_${prefix}` : prefix;
+};
 
 /**
  * テーブルのクエリパラメータのキーを生成する
@@ -14,93 +41,425 @@ import {
  * @returns クエリパラメータのキーオブジェクト
  */
 export const getQueryKeys = (options?: TableOptions) => {
-  const prefix = options?.queryParamPrefix ?? "table";
+  const prefix = getQueryKeyPrefix(options);
   const filterPrefix = `${prefix}_filter_`;
 
   return {
     keywordSearch: `${prefix}_keyword`,
-    sortBy: `${prefix}_sort_by`,
-    sortOrder: `${prefix}_sort_order`,
+    sort: `${prefix}_sort`,
     columnVisibility: `${prefix}_columns`,
+    columnOrder: `${prefix}_order`,
+    pinLeft: `${prefix}_pin_left`,
+    pinRight: `${prefix}_pin_right`,
+    expandedRow: `${prefix}_expanded`,
     page: `${prefix}_page`,
+    pageSize: `${prefix}_page_size`,
+    cursor: `${prefix}_cursor`,
+    cursorStack: `${prefix}_cursor_stack`,
     filterPrefix,
+    compact: prefix,
+    version: `${prefix}_v`,
   };
 };
 
 /**
- * テーブルの状態をURLパラメータから解析する
+ * サーバー上のリクエストやクエリからURLSearchParamsを作成する
+ *
+ * @param source リクエスト、クエリ、またはURLSearchParams
+ * @returns URLSearchParamsオブジェクト
+ */
+export const toSearchParams = (
+  source: TableStateRequestSource
+): URLSearchParams => {
+  if (source instanceof URLSearchParams) return source;
+
+  // NextApiRequestやGetServerSidePropsContext
+  if (
+    "query" in source &&
+    typeof source.query === "object" &&
+    source.query !== null &&
+    !Array.isArray(source.query)
+  ) {
+    return toSearchParams(source.query);
+  }
+
+  // IncomingMessageやRequest（urlは相対パスの場合がある）
+  if (
+    "headers" in source &&
+    typeof source.headers === "object" &&
+    !Array.isArray(source.headers)
+  ) {
+    const url = typeof source.url === "string" ? source.url : "";
+    return new URL(url, "http://localhost").searchParams;
+  }
+
+  // ParsedUrlQuery
+  const searchParams = new URLSearchParams();
+  Object.entries(source).forEach(([key, value]) => {
+    if (Array.isArray(value)) {
+      value.forEach((item) => searchParams.append(key, item));
+    } else if (typeof value === "string") {
+      searchParams.append(key, value);
+    }
+  });
+  return searchParams;
+};
+
+/**
+ * 解析中に見つかった問題と、それを正規化するクエリパラメータの更新内容
+ */
+type ParseDiagnostics = {
+  issues: TableStateIssue[];
+  fixes: Record<string, string | null>;
+};
+
+/**
+ * テーブルの状態をURLパラメータから解析し、不正なクエリパラメータの問題を報告する
+ *
+ * 状態ごとのクエリパラメータと、1つにまとめたクエリパラメータ（`serializer: "compact"`）の両方を解析します。
+ * 古いバージョンの状態は`options.migrations`で現在の形式に変換してから解析します。
  *
  * @param searchParams URLSearchParamsオブジェクト
  * @param queryKeys クエリキーオブジェクト
  * @param columnDefinitions カラム定義配列
- * @returns テーブルの状態
+ * @param options テーブルのオプション
+ * @returns テーブルの状態、問題の一覧、問題のあるクエリパラメータを正規化する更新内容
  */
-export const parseTableState = <Columns extends readonly ColumnDefinition[]>(
-  searchParams: URLSearchParams,
+export const parseTableStateWithDiagnostics = <
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+>(
+  rawSearchParams: URLSearchParams,
   queryKeys: ReturnType<typeof getQueryKeys>,
-  columnDefinitions: Columns
-): TableState<Columns> => {
+  columnDefinitions: Columns,
+  options?: TableOptions<Mode>
+): { state: TableState<Columns, Mode> } & ParseDiagnostics => {
+  const diagnostics: ParseDiagnostics = { issues: [], fixes: {} };
+
+  // 1つにまとめたクエリパラメータを展開し、古いバージョンの状態をマイグレーション
+  const searchParams = migrateTableParams(
+    expandCompactParams(rawSearchParams, queryKeys),
+    queryKeys,
+    options?.migrations
+  );
+
   // キーワード検索
   const keywordSearch = searchParams.get(queryKeys.keywordSearch);
 
   // ソート
-  const sortByParam = searchParams.get(queryKeys.sortBy);
-  const sortBy =
-    sortByParam &&
-    columnDefinitions.some((col) => col.key === sortByParam && col.sortable)
-      ? (sortByParam as SortableColumnKeys<Columns>)
-      : null;
-
-  const sortOrderParam = searchParams.get(queryKeys.sortOrder);
-  const sortOrder =
-    sortOrderParam === "asc" || sortOrderParam === "desc"
-      ? sortOrderParam
-      : null;
+  const sort = parseSort<Columns>(
+    searchParams,
+    queryKeys,
+    columnDefinitions,
+    diagnostics
+  );
 
   // 列の表示/非表示
-  const columnVisibilityParam = searchParams.get(queryKeys.columnVisibility);
   const columnVisibility = parseColumnVisibility<Columns>(
-    columnVisibilityParam,
-    columnDefinitions
+    searchParams,
+    queryKeys,
+    columnDefinitions,
+    diagnostics
+  );
+
+  // 列の順序
+  const columnOrder = parseColumnOrder<Columns>(
+    searchParams,
+    queryKeys,
+    columnDefinitions,
+    diagnostics
+  );
+
+  // 固定する列
+  const pinning = parsePinning<Columns>(
+    searchParams,
+    queryKeys,
+    columnDefinitions,
+    diagnostics
   );
 
+  // 展開している行（URLに保存する場合のみ）
+  const expandedRowId = options?.expansion?.persistInUrl
+    ? searchParams.get(queryKeys.expandedRow)
+    : null;
+
   // ページネーション
-  const pageParam = searchParams.get(queryKeys.page);
-  const pagination = /[0-9]+/.test(pageParam ?? "")
-    ? parseInt(pageParam ?? "")
-    : 1;
+  const pagination = parsePagination<Mode>(
+    searchParams,
+    queryKeys,
+    diagnostics,
+    options
+  );
 
   // フィルター
   const filter = parseFilters<Columns>(
     searchParams,
     queryKeys,
-    columnDefinitions
+    columnDefinitions,
+    diagnostics
   );
 
   return {
-    keywordSearch,
-    sort: { sortBy, sortOrder },
-    columnVisibility,
-    pagination,
-    filter,
+    state: {
+      keywordSearch,
+      sort,
+      columnVisibility,
+      columnOrder,
+      pinning,
+      // 列の幅と行の選択はURLに保存しない（useTableで補う）
+      columnWidths: {},
+      selection: emptyRowSelection,
+      expandedRowIds: expandedRowId ? [expandedRowId] : [],
+      pagination,
+      filter,
+    },
+    ...diagnostics,
   };
 };
 
+/**
+ * テーブルの状態をURLパラメータから解析する
+ *
+ * 不正なクエリパラメータは無視されます（問題の一覧が必要な場合は`parseTableStateWithDiagnostics`を使用します）。
+ *
+ * @param searchParams URLSearchParamsオブジェクト
+ * @param queryKeys クエリキーオブジェクト
+ * @param columnDefinitions カラム定義配列
+ * @param options テーブルのオプション
+ * @returns テーブルの状態
+ */
+export const parseTableState = <
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+>(
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: Columns,
+  options?: TableOptions<Mode>
+): TableState<Columns, Mode> =>
+  parseTableStateWithDiagnostics(
+    searchParams,
+    queryKeys,
+    columnDefinitions,
+    options
+  ).state;
+
+/**
+ * クエリパラメータからページネーションを解析する
+ *
+ * @param searchParams 検索パラメータオブジェクト
+ * @param queryKeys クエリキーオブジェクト
+ * @param diagnostics 問題を報告する先
+ * @param options テーブルのオプション
+ * @returns ページネーションの方式に対応するページネーション
+ */
+const parsePagination = <Mode extends PaginationMode>(
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  diagnostics: ParseDiagnostics,
+  options?: TableOptions<Mode>
+): PaginationByMode<Mode> => {
+  // 選択肢にないページサイズはデフォルト値を使用する
+  const pageSizeOptions = getPageSizeOptions(options);
+  const rawPageSize = searchParams.get(queryKeys.pageSize);
+  const pageSizeParam = Number(rawPageSize);
+  const pageSize = pageSizeOptions.includes(pageSizeParam)
+    ? pageSizeParam
+    : pageSizeOptions[0];
+  if (rawPageSize !== null && pageSize !== pageSizeParam) {
+    reportIssue(diagnostics, {
+      key: queryKeys.pageSize,
+      value: rawPageSize,
+      reason: "invalidPageSize",
+      fix: null,
+    });
+  }
+
+  if (options?.paginationMode === "cursor") {
+    const cursor = searchParams.get(queryKeys.cursor) || null;
+    const rawCursorStack = searchParams.get(queryKeys.cursorStack);
+    const cursorStack = parseCursorStack(rawCursorStack);
+    // デコードできないカーソルは無視される
+    const hasInvalidCursor =
+      cursorStack.length !==
+      (rawCursorStack ?? "").split(",").filter((encoded) => encoded !== "")
+        .length;
+    if (rawCursorStack !== null && hasInvalidCursor) {
+      reportIssue(diagnostics, {
+        key: queryKeys.cursorStack,
+        value: rawCursorStack,
+        reason: "invalidCursor",
+        fix: encodeCursorStack(cursorStack),
+      });
+    }
+
+    // 最初のページではスタックは空になる
+    const pagination: CursorPagination = {
+      cursor,
+      cursorStack: cursor === null ? [] : cursorStack,
+      pageSize,
+    };
+    return pagination as PaginationByMode<Mode>;
+  }
+
+  // 1以上の整数（先頭に0を付けない）以外は1ページ目とする
+  const pageParam = searchParams.get(queryKeys.page);
+  const isValidPage = pageParam !== null && /^[1-9][0-9]*$/.test(pageParam);
+  const page = isValidPage ? Number(pageParam) : 1;
+  if (pageParam !== null && !isValidPage) {
+    reportIssue(diagnostics, {
+      key: queryKeys.page,
+      value: pageParam,
+      reason: "invalidPage",
+      fix: null,
+    });
+  }
+
+  const pagination: OffsetPagination = { page, pageSize };
+  return pagination as PaginationByMode<Mode>;
+};
+
+/**
+ * クエリパラメータからカーソルのスタックを解析する
+ *
+ * @param cursorStackParam カーソルのスタックのクエリパラメータ
+ * @returns カーソルの配列（デコードできないカーソルは無視する）
+ */
+const parseCursorStack = (cursorStackParam: string | null): string[] =>
+  (cursorStackParam ?? "").split(",").flatMap((encoded) => {
+    if (encoded === "") return [];
+    try {
+      return [decodeURIComponent(encoded)];
+    } catch {
+      return [];
+    }
+  });
+
+/**
+ * カーソルのスタックをクエリパラメータの文字列にエンコードする
+ *
+ * カーソルに`,`が含まれていても区切れるように、各カーソルをURIエンコードします。
+ *
+ * @param cursorStack カーソルの配列
+ * @returns カーソルのスタックのクエリパラメータ（空の場合はnull）
+ */
+export const encodeCursorStack = (cursorStack: string[]): string | null =>
+  cursorStack.length > 0
+    ? cursorStack.map((cursor) => encodeURIComponent(cursor)).join(",")
+    : null;
+
+/**
+ * クエリパラメータからソート条件の一覧を解析する
+ *
+ * `age:desc,name:asc`のような形式を優先度の高い順に解析します。
+ * 存在しないカラム、ソート可能でないカラム、不正なソート順、重複したカラムは無視されます。
+ * ソート条件がない場合は、以前の形式（`sort_by`と`sort_order`）の1つのソート条件を解析します。
+ *
+ * @param searchParams 検索パラメータオブジェクト
+ * @param queryKeys クエリキーオブジェクト
+ * @param columnDefinitions カラム定義配列
+ * @param diagnostics 問題を報告する先
+ * @returns ソート条件の配列
+ */
+const parseSort = <Columns extends readonly ColumnDefinition[]>(
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: Columns,
+  diagnostics: ParseDiagnostics
+): SortDescriptor<Columns>[] => {
+  // 以前の形式のリンク（ブックマークなど）のソート条件も読み込む
+  const legacySortBy = searchParams.get(`${queryKeys.sort}_by`);
+  const legacySortOrder = searchParams.get(`${queryKeys.sort}_order`);
+  const sortParam =
+    searchParams.get(queryKeys.sort) ??
+    (legacySortBy === null ? null : `${legacySortBy}:${legacySortOrder}`);
+  const sort: SortDescriptor<Columns>[] = [];
+  const issues: Omit<TableStateIssue, "key" | "value">[] = [];
+
+  (sortParam ?? "").split(",").forEach((entry) => {
+    if (entry === "") return;
+
+    const [sortBy, sortOrder] = entry.split(":");
+    const column = columnDefinitions.find((col) => col.key === sortBy);
+
+    if (!column) {
+      issues.push({ reason: "unknownColumn", column: sortBy });
+    } else if (!column.sortable) {
+      issues.push({ reason: "notSortable", column: sortBy });
+    } else if (sortOrder !== "asc" && sortOrder !== "desc") {
+      issues.push({ reason: "invalidSortOrder", column: sortBy });
+    } else if (sort.some((item) => item.sortBy === sortBy)) {
+      issues.push({ reason: "duplicateSort", column: sortBy });
+    } else {
+      sort.push({
+        sortBy: sortBy as SortableColumnKeys<Columns>,
+        sortOrder,
+      });
+    }
+  });
+
+  issues.forEach((issue) =>
+    reportIssue(diagnostics, {
+      ...issue,
+      key: queryKeys.sort,
+      value: sortParam ?? "",
+      fix: encodeSort(sort),
+    })
+  );
+
+  return sort;
+};
+
+/**
+ * ソート条件の一覧をクエリパラメータの文字列にエンコードする
+ *
+ * @param sort ソート条件の配列
+ * @returns ソートのクエリパラメータ（ソートしない場合はnull）
+ */
+export const encodeSort = (
+  sort: { sortBy: string; sortOrder: SortOrder }[]
+): string | null =>
+  sort.length > 0
+    ? sort.map(({ sortBy, sortOrder }) => `${sortBy}:${sortOrder}`).join(",")
+    : null;
+
 /**
  * クエリパラメータからテーブルの列表示設定を解析する
  *
- * @param columnVisibilityParam 列表示のクエリパラメータ
+ * @param searchParams 検索パラメータオブジェクト
+ * @param queryKeys クエリキーオブジェクト
  * @param columnDefinitions カラム定義配列
+ * @param diagnostics 問題を報告する先
  * @returns 表示する列の配列
  */
 const parseColumnVisibility = <Columns extends readonly ColumnDefinition[]>(
-  columnVisibilityParam: string | null,
-  columnDefinitions: Columns
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: Columns,
+  diagnostics: ParseDiagnostics
 ): ExtractColumnKeys<Columns>[] => {
-  const columnVisibilityArrayFromParam = (columnVisibilityParam ?? "")
+  const columnVisibilityParam = searchParams.get(queryKeys.columnVisibility);
+  const keys = (columnVisibilityParam ?? "")
     .split(",")
-    .filter((key): key is ExtractColumnKeys<Columns> =>
+    .filter((key) => key !== "");
+  const columnVisibilityArrayFromParam = keys.filter(
+    (key): key is ExtractColumnKeys<Columns> =>
       columnDefinitions.some((col) => col.key === key)
+  );
+
+  keys
+    .filter((key) => !columnDefinitions.some((col) => col.key === key))
+    .forEach((key) =>
+      reportIssue(diagnostics, {
+        key: queryKeys.columnVisibility,
+        value: columnVisibilityParam ?? "",
+        reason: "unknownColumn",
+        column: key,
+        fix:
+          columnVisibilityArrayFromParam.length > 0
+            ? columnVisibilityArrayFromParam.join(",")
+            : null,
+      })
     );
 
   return columnVisibilityArrayFromParam.length > 0
@@ -110,46 +469,193 @@ const parseColumnVisibility = <Columns extends readonly ColumnDefinition[]>(
         .map((col) => col.key) as ExtractColumnKeys<Columns>[]);
 };
 
+/**
+ * クエリパラメータから列の順序を解析する
+ *
+ * クエリパラメータにないカラムは、カラム定義の順に末尾に追加します。
+ *
+ * @param searchParams 検索パラメータオブジェクト
+ * @param queryKeys クエリキーオブジェクト
+ * @param columnDefinitions カラム定義配列
+ * @param diagnostics 問題を報告する先
+ * @returns すべてのカラムキーを表示する順に並べた配列
+ */
+const parseColumnOrder = <Columns extends readonly ColumnDefinition[]>(
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: Columns,
+  diagnostics: ParseDiagnostics
+): ExtractColumnKeys<Columns>[] => {
+  const columnOrderParam = searchParams.get(queryKeys.columnOrder);
+  const columnOrder: ExtractColumnKeys<Columns>[] = [];
+  const issues: Omit<TableStateIssue, "key" | "value">[] = [];
+
+  (columnOrderParam ?? "").split(",").forEach((key) => {
+    if (key === "") return;
+
+    if (!columnDefinitions.some((col) => col.key === key)) {
+      issues.push({ reason: "unknownColumn", column: key });
+    } else if ((columnOrder as string[]).includes(key)) {
+      issues.push({ reason: "duplicateColumn", column: key });
+    } else {
+      columnOrder.push(key as ExtractColumnKeys<Columns>);
+    }
+  });
+
+  issues.forEach((issue) =>
+    reportIssue(diagnostics, {
+      ...issue,
+      key: queryKeys.columnOrder,
+      value: columnOrderParam ?? "",
+      fix: columnOrder.length > 0 ? columnOrder.join(",") : null,
+    })
+  );
+
+  return [
+    ...columnOrder,
+    ...(columnDefinitions
+      .map((col) => col.key)
+      .filter(
+        (key) => !(columnOrder as string[]).includes(key)
+      ) as ExtractColumnKeys<Columns>[]),
+  ];
+};
+
+/**
+ * クエリパラメータから固定する列を解析する
+ *
+ * 左右の両方に指定したカラムは左に固定します。
+ *
+ * @param searchParams 検索パラメータオブジェクト
+ * @param queryKeys クエリキーオブジェクト
+ * @param columnDefinitions カラム定義配列
+ * @param diagnostics 問題を報告する先
+ * @returns 左右に固定する列
+ */
+const parsePinning = <Columns extends readonly ColumnDefinition[]>(
+  searchParams: URLSearchParams,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: Columns,
+  diagnostics: ParseDiagnostics
+): ColumnPinning<Columns> => {
+  const pinning: ColumnPinning<Columns> = { left: [], right: [] };
+  const isPinned = (key: string) =>
+    (pinning.left as string[]).includes(key) ||
+    (pinning.right as string[]).includes(key);
+
+  (["left", "right"] as const).forEach((side) => {
+    const key = side === "left" ? queryKeys.pinLeft : queryKeys.pinRight;
+    const pinParam = searchParams.get(key);
+    const issues: Omit<TableStateIssue, "key" | "value">[] = [];
+
+    (pinParam ?? "").split(",").forEach((columnKey) => {
+      if (columnKey === "") return;
+
+      const column = columnDefinitions.find((col) => col.key === columnKey);
+
+      if (!column) {
+        issues.push({ reason: "unknownColumn", column: columnKey });
+      } else if (!column.pinnable) {
+        issues.push({ reason: "notPinnable", column: columnKey });
+      } else if (isPinned(columnKey)) {
+        issues.push({ reason: "duplicateColumn", column: columnKey });
+      } else {
+        pinning[side].push(columnKey as PinnableColumnKeys<Columns>);
+      }
+    });
+
+    issues.forEach((issue) =>
+      reportIssue(diagnostics, {
+        ...issue,
+        key,
+        value: pinParam ?? "",
+        fix: pinning[side].length > 0 ? pinning[side].join(",") : null,
+      })
+    );
+  });
+
+  return pinning;
+};
+
 /**
  * クエリパラメータからフィルター設定を解析する
  *
  * @param searchParams 検索パラメータオブジェクト
  * @param queryKeys クエリキーオブジェクト
  * @param columnDefinitions カラム定義配列
+ * @param diagnostics 問題を報告する先
  * @returns フィルター設定オブジェクト
  */
 const parseFilters = <Columns extends readonly ColumnDefinition[]>(
   searchParams: URLSearchParams,
   queryKeys: ReturnType<typeof getQueryKeys>,
-  columnDefinitions: Columns
+  columnDefinitions: Columns,
+  diagnostics: ParseDiagnostics
 ): FilterTypeMap<Columns> => {
   const filter = {} as FilterTypeMap<Columns>;
 
-  try {
-    columnDefinitions.forEach((col) => {
-      const colKey = col.key as ExtractColumnKeys<Columns>;
-
-      if (col.filter !== null) {
-        const filterParamKey = `${queryKeys.filterPrefix}${colKey}`;
-        const encodedFilterValue = searchParams.get(filterParamKey);
-
-        if (encodedFilterValue !== null) {
-          try {
-            const filterValue = col.filter.decodeFromUrl(encodedFilterValue);
-            if (filterValue !== null) {
-              (filter as Record<string, unknown>)[colKey] = filterValue;
-            }
-          } catch (error) {
-            console.error(`Failed to decode filter for ${colKey}:`, error);
+  columnDefinitions.forEach((col) => {
+    const colKey = col.key as ExtractColumnKeys<Columns>;
+
+    if (col.filter !== null) {
+      const filterParamKey = `${queryKeys.filterPrefix}${colKey}`;
+      const encodedFilterValue = searchParams.get(filterParamKey);
+
+      if (encodedFilterValue !== null) {
+        const invalidFilterIssue = {
+          key: filterParamKey,
+          value: encodedFilterValue,
+          reason: "invalidFilter",
+          column: colKey,
+          fix: null,
+        } as const;
+
+        try {
+          const filterValue = col.filter.decodeFromUrl(encodedFilterValue);
+          if (filterValue !== null) {
+            (filter as Record<string, unknown>)[colKey] = filterValue;
+          } else {
+            reportIssue(diagnostics, invalidFilterIssue);
           }
-        } else {
-          (filter as Record<string, unknown>)[colKey] = null;
+        } catch {
+          reportIssue(diagnostics, invalidFilterIssue);
         }
+      } else {
+        (filter as Record<string, unknown>)[colKey] = null;
       }
+    }
+  });
+
+  // 存在しないカラムやフィルターのないカラムのフィルターは無視する
+  searchParams.forEach((value, key) => {
+    if (!key.startsWith(queryKeys.filterPrefix)) return;
+
+    const columnKey = key.slice(queryKeys.filterPrefix.length);
+    const column = columnDefinitions.find((col) => col.key === columnKey);
+    if (column?.filter) return;
+
+    reportIssue(diagnostics, {
+      key,
+      value,
+      reason: column ? "notFilterable" : "unknownColumn",
+      column: columnKey,
+      fix: null,
     });
-  } catch (error) {
-    console.error("Error parsing filter parameters:", error);
-  }
+  });
 
   return filter;
 };
+
+/**
+ * 解析中に見つかった問題を報告する
+ *
+ * @param diagnostics 問題を報告する先
+ * @param issue 問題と、クエリパラメータを正規化した値（削除する場合はnull）
+ */
+const reportIssue = (
+  diagnostics: ParseDiagnostics,
+  { fix, ...issue }: TableStateIssue & { fix: string | null }
+) => {
+  diagnostics.issues.push(issue);
+  diagnostics.fixes[issue.key] = fix;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { claimQueryKeyPrefix } from "./queryKeyRegistry";
+
+describe("claimQueryKeyPrefix", () => {
+  it("別のテーブルが同じプレフィックスを使用すると例外を投げる", () => {
+    const release = claimQueryKeyPrefix({}, "conflict");
+
+    expect(() => claimQueryKeyPrefix({}, "conflict")).toThrow(
+      /"conflict"が複数のテーブルで使用されています/
+    );
+
+    release();
+  });
+
+  it("一方のプレフィックスがもう一方のプレフィックスの先頭と一致すると例外を投げる", () => {
+    const release = claimQueryKeyPrefix({}, "overlap");
+
+    expect(() => claimQueryKeyPrefix({}, "overlap_table")).toThrow(
+      /"overlap_table"と"overlap"が重なっています/
+    );
+
+    release();
+    const releaseLonger = claimQueryKeyPrefix({}, "overlap_table");
+
+    expect(() => claimQueryKeyPrefix({}, "overlap")).toThrow(
+      /"overlap"と"overlap_table"が重なっています/
+    );
+    // 区切りの`_`がない場合は衝突しない
+    expect(() => claimQueryKeyPrefix({}, "overlap_tab")()).not.toThrow();
+
+    releaseLonger();
+  });
+
+  it("同じテーブルは同じプレフィックスを複数回使用できる", () => {
+    const owner = {};
+    const release1 = claimQueryKeyPrefix(owner, "shared");
+    const release2 = claimQueryKeyPrefix(owner, "shared");
+
+    release1();
+    // まだマウントされているため、別のテーブルは使用できない
+    expect(() => claimQueryKeyPrefix({}, "shared")).toThrow();
+
+    release2();
+    expect(() => claimQueryKeyPrefix({}, "shared")()).not.toThrow();
+  });
+
+  it("登録を解除すると別のテーブルが使用できる", () => {
+    const release = claimQueryKeyPrefix({}, "released");
+    release();
+    // 2回解除しても問題ない
+    release();
+
+    expect(() => claimQueryKeyPrefix({}, "released")()).not.toThrow();
+  });
+
+  it("プレフィックスが異なれば衝突しない", () => {
+    const release = claimQueryKeyPrefix({}, "users_table");
+
+    expect(() => claimQueryKeyPrefix({}, "orders_table")()).not.toThrow();
+
+    release();
+  });
+});
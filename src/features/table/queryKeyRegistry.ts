@@ -0,0 +1,63 @@
+/**
+ * マウント中のテーブルが使用しているクエリパラメータのプレフィックス
+ *
+ * プレフィックスごとに、使用しているテーブルとマウント数を保持します。
+ */
+const claimedPrefixes = new Map<string, { owner: object; count: number }>();
+
+/**
+ * テーブルがクエリパラメータのプレフィックスを使用することを登録する
+ *
+ * 別のテーブルが同じプレフィックスを使用している場合や、一方のプレフィックスに`_`を付けたものが
+ * もう一方のプレフィックスの先頭と一致する場合（`users`と`users_table`など）は、
+ * クエリパラメータのキーが衝突するため例外を投げます。
+ * 同じテーブルを複数の箇所でマウントする場合は状態を共有するため、例外を投げません。
+ *
+ * @param owner テーブルを識別するオブジェクト
+ * @param prefix クエリパラメータのプレフィックス
+ * @returns 登録を解除する関数
+ */
+export const claimQueryKeyPrefix = (
+  owner: object,
+  prefix: string
+): (() => void) => {
+  const claimed = claimedPrefixes.get(prefix);
+  if (claimed && claimed.owner !== owner) {
+    throw new Error(
+      `クエリパラメータのプレフィックス"${prefix}"が複数のテーブルで使用されています。` +
+        "`tableName`または`queryParamPrefix`を指定してください。"
+    );
+  }
+
+  const overlappingPrefix = [...claimedPrefixes.keys()].find(
+    (claimedPrefix) =>
+      claimedPrefix.startsWith(`${prefix}_`) ||
+      prefix.startsWith(`${claimedPrefix}_`)
+  );
+  if (overlappingPrefix !== undefined) {
+    throw new Error(
+      `クエリパラメータのプレフィックス"${prefix}"と"${overlappingPrefix}"が重なっています。` +
+        "一方のプレフィックスがもう一方の先頭と一致しないように`tableName`または`queryParamPrefix`を指定してください。"
+    );
+  }
+
+  claimedPrefixes.set(prefix, {
+    owner,
+    count: (claimed?.count ?? 0) + 1,
+  });
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+
+    const current = claimedPrefixes.get(prefix);
+    if (!current || current.owner !== owner) return;
+
+    if (current.count <= 1) {
+      claimedPrefixes.delete(prefix);
+    } else {
+      claimedPrefixes.set(prefix, { owner, count: current.count - 1 });
+    }
+  };
+};
@@ -0,0 +1,227 @@
+import {
+  ColumnDefinition,
+  TableOptions,
+  TablePreferenceStore,
+  TableStateStore,
+} from "./types";
+import { getQueryKeys, parseTableState } from "./parseTableState";
+import { packCompactParams } from "./compactParams";
+import { normalizeTableParams } from "./normalizeTableParams";
+import {
+  applyTablePreferences,
+  extractTablePreferences,
+} from "./tablePreferences";
+
+/**
+ * まだ書き込んでいないクエリパラメータの更新
+ */
+type PendingUpdate = {
+  updates: Record<string, string | null>;
+  replace: boolean;
+};
+
+/**
+ * テーブルのクエリパラメータを書き込むライターを作成する
+ *
+ * テーブルごとに1つ作成し、すべてのコンポーネントで共有します。
+ * `options.debounceMs`を指定すると、連続した更新をまとめて書き込みます。
+ *
+ * 書き込んだクエリパラメータは、ストアに反映される（ストアが別のインスタンスを返す）まで
+ * `getLatestParams`の結果に含まれるため、Next.jsのルーターのように非同期に反映されるストアでも
+ * 連続した更新が最新の状態をもとに計算されます。
+ *
+ * 設定のストアを指定すると、クエリパラメータにない状態を保存した設定で補い、
+ * 書き込んだ状態を設定として保存します。
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param getStore 現在のストアを取得する関数
+ * @param preferenceStore ユーザーの設定のストア
+ * @param options テーブルのオプション
+ * @returns クエリパラメータのライター
+ */
+export const createQueryParamsWriter = (
+  columnDefinitions: readonly ColumnDefinition[],
+  getStore: () => TableStateStore,
+  preferenceStore: TablePreferenceStore | null,
+  options?: TableOptions
+) => {
+  const queryKeys = getQueryKeys(options);
+
+  // 書き込み待ちの更新、batchの入れ子の深さ、デバウンスのタイマー
+  let pending: PendingUpdate | null = null;
+  let batchDepth = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  // 最後に書き込んだクエリパラメータと、書き込む前のストアのクエリパラメータ
+  let lastWrite: { base: URLSearchParams; params: URLSearchParams } | null =
+    null;
+
+  /**
+   * ストアに書き込み済みのクエリパラメータを取得する（ストアに未反映の書き込みを含む）
+   */
+  const getCommittedParams = () => {
+    const current = getStore().getSearchParams();
+    if (lastWrite && lastWrite.base === current) return lastWrite.params;
+
+    lastWrite = null;
+    return current;
+  };
+
+  /**
+   * クエリパラメータに書き込み待ちの更新を適用する
+   *
+   * @param base 書き込み済みのクエリパラメータ
+   * @returns 展開・マイグレーションして設定で補い、書き込み待ちの更新を適用したクエリパラメータ
+   */
+  const applyPending = (base: URLSearchParams) => {
+    // 古いバージョンの状態は現在のバージョンに変換し、クエリパラメータにない状態は設定で補ってから更新する
+    const params = applyTablePreferences(
+      base,
+      preferenceStore?.getPreferences() ?? {},
+      queryKeys,
+      columnDefinitions,
+      options
+    );
+
+    Object.entries(pending?.updates ?? {}).forEach(([key, value]) => {
+      if (value === null) {
+        params.delete(key);
+      } else {
+        params.set(key, value);
+      }
+    });
+
+    return params;
+  };
+
+  /**
+   * 書き込み待ちの更新を含む最新のクエリパラメータを取得する
+   *
+   * @returns 最新のクエリパラメータ
+   */
+  const getLatestParams = () => applyPending(getCommittedParams());
+
+  /**
+   * 書き込み待ちの更新をストアに書き込む
+   */
+  const flush = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (!pending) return;
+
+    const newParams = getLatestParams();
+    const { replace } = pending;
+    pending = null;
+
+    // 同じ状態から同じURLになるように正規化する
+    const normalizedParams = normalizeTableParams(
+      newParams,
+      queryKeys,
+      columnDefinitions,
+      options
+    );
+
+    // ストアに書き込む（compactの場合は1つのクエリパラメータにまとめる）
+    const writtenParams =
+      options?.serializer === "compact"
+        ? packCompactParams(normalizedParams, queryKeys)
+        : normalizedParams;
+    const store = getStore();
+    const base = store.getSearchParams();
+    store.setSearchParams(writtenParams, { replace });
+    lastWrite = { base, params: writtenParams };
+
+    // 書き込んだ状態を設定として保存する（URLに保存しない列の幅は保つ）
+    preferenceStore?.setPreferences({
+      ...preferenceStore.getPreferences(),
+      ...extractTablePreferences(
+        parseTableState(normalizedParams, queryKeys, columnDefinitions, options)
+      ),
+    });
+  };
+
+  /**
+   * クエリパラメータを更新する
+   *
+   * batch中やデバウンス中の更新はまとめて書き込まれ、
+   * すべての更新が`replace`の場合のみ現在の履歴を置き換えます。
+   *
+   * @param updates クエリパラメータの更新内容
+   * @param resetPage ページをリセットするかどうか
+   * @param replace 履歴を追加せずに現在の履歴を置き換えるかどうか
+   */
+  const update = (
+    updates: Record<string, string | null>,
+    resetPage = false,
+    replace = false
+  ) => {
+    pending = {
+      updates: {
+        ...pending?.updates,
+        // ページをリセットする場合（カーソルによるページネーションでは最初のページに戻す）
+        ...(resetPage && {
+          [queryKeys.page]: null,
+          [queryKeys.cursor]: null,
+          [queryKeys.cursorStack]: null,
+        }),
+        ...updates,
+      },
+      replace: (pending?.replace ?? true) && replace,
+    };
+
+    if (batchDepth > 0) return;
+
+    if (options?.debounceMs) {
+      if (timer !== null) clearTimeout(timer);
+      timer = setTimeout(flush, options.debounceMs);
+      return;
+    }
+
+    flush();
+  };
+
+  /**
+   * 関数内のクエリパラメータの更新を1回の書き込みにまとめる
+   *
+   * @param fn クエリパラメータを更新する関数
+   */
+  const batch = (fn: () => void) => {
+    batchDepth += 1;
+    try {
+      fn();
+    } finally {
+      batchDepth -= 1;
+    }
+
+    if (batchDepth === 0 && pending) {
+      update({}, false, pending.replace);
+    }
+  };
+
+  /**
+   * 書き込み待ちの更新を破棄する
+   */
+  const cancel = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    pending = null;
+  };
+
+  return {
+    queryKeys,
+    getCommittedParams,
+    getLatestParams,
+    update,
+    batch,
+    cancel,
+  };
+};
+
+/**
+ * クエリパラメータのライターの型
+ */
+export type QueryParamsWriter = ReturnType<typeof createQueryParamsWriter>;
@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createRowExpansionStore,
+  isPageExpanded,
+  mergeExpandedRowIds,
+} from "./rowExpansion";
+
+describe("mergeExpandedRowIds", () => {
+  it("展開した行のIDを順序を保って重複なくまとめる", () => {
+    expect(mergeExpandedRowIds(["a", "b"], ["b", "c"], ["a"])).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+});
+
+describe("isPageExpanded", () => {
+  it("現在のページのすべての行を展開している場合のみtrueを返す", () => {
+    expect(isPageExpanded(["a", "b", "x"], ["a", "b"])).toBe(true);
+    expect(isPageExpanded(["a"], ["a", "b"])).toBe(false);
+  });
+
+  it("ページに行がない場合はfalseを返す", () => {
+    expect(isPageExpanded(["a"], [])).toBe(false);
+  });
+});
+
+describe("createRowExpansionStore", () => {
+  it("展開した行を書き込むと保持し、購読者に通知する", () => {
+    const store = createRowExpansionStore();
+    const onChange = vi.fn();
+    store.subscribe(onChange);
+
+    store.setExpandedRowIds(["a"]);
+
+    expect(store.getExpandedRowIds()).toEqual(["a"]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
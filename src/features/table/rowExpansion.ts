@@ -0,0 +1,59 @@
+/**
+ * 行を展開していない状態（インスタンスを共有する）
+ */
+export const emptyExpandedRowIds: readonly string[] = [];
+
+/**
+ * 展開した行を保存するストアを作成する
+ *
+ * URLに保存しない展開した行（`persistInUrl`を指定しない場合はすべての展開した行）を保持します。
+ *
+ * @returns 展開した行のストア
+ */
+export const createRowExpansionStore = () => {
+  let expandedRowIds = emptyExpandedRowIds;
+  const listeners = new Set<() => void>();
+
+  return {
+    getExpandedRowIds: () => expandedRowIds,
+    setExpandedRowIds: (rowIds: readonly string[]) => {
+      expandedRowIds = rowIds;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (onChange: () => void) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+/**
+ * 展開した行のストアの型
+ */
+export type RowExpansionStore = ReturnType<typeof createRowExpansionStore>;
+
+/**
+ * 展開した行のIDを重複なくまとめる
+ *
+ * @param rowIds 展開した行のIDの配列
+ * @returns 重複を除いた展開した行のID
+ */
+export const mergeExpandedRowIds = (
+  ...rowIds: (readonly string[])[]
+): string[] => [...new Set(rowIds.flat())];
+
+/**
+ * 現在のページのすべての行を展開しているかどうかを判定する
+ *
+ * @param expandedRowIds 展開した行のID
+ * @param pageRowIds 現在のページの行のID
+ * @returns すべて展開している場合はtrue（行がない場合はfalse）
+ */
+export const isPageExpanded = (
+  expandedRowIds: readonly string[],
+  pageRowIds: readonly string[]
+): boolean =>
+  pageRowIds.length > 0 &&
+  pageRowIds.every((rowId) => expandedRowIds.includes(rowId));
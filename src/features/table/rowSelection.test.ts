@@ -0,0 +1,140 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  createRowSelectionStore,
+  emptyRowSelection,
+  getBulkActionTarget,
+  getPageSelectionState,
+  toggleRowId,
+  togglePageRowIds,
+} from "./rowSelection";
+
+describe("toggleRowId", () => {
+  const pageRowIds = ["a", "b", "c", "d"];
+
+  it("複数選択では選択した行に追加し、選択済みの行は解除する", () => {
+    const selected = toggleRowId(emptyRowSelection, "b", pageRowIds, {
+      mode: "multi",
+    });
+    expect(selected).toEqual({ rowIds: ["b"], allMatching: false });
+
+    expect(
+      toggleRowId({ rowIds: ["x", "b"], allMatching: false }, "b", pageRowIds, {
+        mode: "multi",
+      })
+    ).toEqual({ rowIds: ["x"], allMatching: false });
+  });
+
+  it("単一選択では指定した行のみを選択する", () => {
+    expect(
+      toggleRowId({ rowIds: ["a"], allMatching: false }, "c", pageRowIds, {
+        mode: "single",
+      })
+    ).toEqual({ rowIds: ["c"], allMatching: false });
+    expect(
+      toggleRowId({ rowIds: ["c"], allMatching: false }, "c", pageRowIds, {
+        mode: "single",
+      })
+    ).toEqual({ rowIds: [], allMatching: false });
+  });
+
+  it("範囲選択では起点の行から指定した行までをそろえる", () => {
+    expect(
+      toggleRowId({ rowIds: ["d"], allMatching: false }, "b", pageRowIds, {
+        mode: "multi",
+        anchorRowId: "d",
+        range: true,
+      })
+    ).toEqual({ rowIds: ["d", "b", "c"], allMatching: false });
+
+    expect(
+      toggleRowId(
+        { rowIds: ["a", "b", "c", "d"], allMatching: false },
+        "c",
+        pageRowIds,
+        { mode: "multi", anchorRowId: "a", range: true }
+      )
+    ).toEqual({ rowIds: ["d"], allMatching: false });
+  });
+
+  it("起点の行が現在のページにない場合は指定した行のみを切り替える", () => {
+    expect(
+      toggleRowId(emptyRowSelection, "b", pageRowIds, {
+        mode: "multi",
+        anchorRowId: "x",
+        range: true,
+      })
+    ).toEqual({ rowIds: ["b"], allMatching: false });
+  });
+
+  it("すべての行を選択している場合は現在のページの行を選択した状態から切り替える", () => {
+    expect(
+      toggleRowId({ rowIds: [], allMatching: true }, "b", pageRowIds, {
+        mode: "multi",
+      })
+    ).toEqual({ rowIds: ["a", "c", "d"], allMatching: false });
+  });
+});
+
+describe("togglePageRowIds", () => {
+  it("ほかのページの選択を保ったままページのすべての行を選択する", () => {
+    expect(
+      togglePageRowIds({ rowIds: ["x", "a"], allMatching: false }, ["a", "b"])
+    ).toEqual({ rowIds: ["x", "a", "b"], allMatching: false });
+  });
+
+  it("ページのすべての行が選択されている場合は選択を解除する", () => {
+    expect(
+      togglePageRowIds({ rowIds: ["x", "a", "b"], allMatching: false }, [
+        "a",
+        "b",
+      ])
+    ).toEqual({ rowIds: ["x"], allMatching: false });
+    expect(
+      togglePageRowIds({ rowIds: [], allMatching: true }, ["a", "b"])
+    ).toEqual(emptyRowSelection);
+  });
+});
+
+describe("getPageSelectionState", () => {
+  it("ページの行の選択状態を返す", () => {
+    const selection = { rowIds: ["a"], allMatching: false };
+    expect(getPageSelectionState(selection, ["a"])).toBe(true);
+    expect(getPageSelectionState(selection, ["a", "b"])).toBe("indeterminate");
+    expect(getPageSelectionState(selection, ["b"])).toBe(false);
+    expect(getPageSelectionState(selection, [])).toBe(false);
+  });
+});
+
+describe("getBulkActionTarget", () => {
+  const state = { keywordSearch: "山田", filter: { status: "active" } };
+
+  it("選択した行のIDを返す", () => {
+    expect(
+      getBulkActionTarget({ rowIds: ["a"], allMatching: false }, state)
+    ).toEqual({ allMatching: false, rowIds: ["a"] });
+  });
+
+  it("すべての行を選択している場合は現在のキーワード検索とフィルターを返す", () => {
+    expect(
+      getBulkActionTarget({ rowIds: [], allMatching: true }, state)
+    ).toEqual({
+      allMatching: true,
+      keywordSearch: "山田",
+      filter: { status: "active" },
+    });
+  });
+});
+
+describe("createRowSelectionStore", () => {
+  it("選択を書き込むと範囲選択の起点とともに保持し、購読者に通知する", () => {
+    const store = createRowSelectionStore();
+    const onChange = vi.fn();
+    store.subscribe(onChange);
+
+    store.setSelection({ rowIds: ["a"], allMatching: false }, "a");
+
+    expect(store.getSelection()).toEqual({ rowIds: ["a"], allMatching: false });
+    expect(store.getAnchorRowId()).toBe("a");
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  ColumnDefinition,
+  RowSelection,
+  RowSelectionMode,
+  TableBulkActionTarget,
+  TableState,
+} from "./types";
+
+/**
+ * 行を選択していない状態（インスタンスを共有する）
+ */
+export const emptyRowSelection: RowSelection = {
+  rowIds: [],
+  allMatching: false,
+};
+
+/**
+ * 行の選択を保存するストアを作成する
+ *
+ * 範囲選択の起点として、最後に選択を切り替えた行のIDもあわせて保持します。
+ *
+ * @returns 行の選択のストア
+ */
+export const createRowSelectionStore = () => {
+  let selection = emptyRowSelection;
+  let anchorRowId: string | null = null;
+  const listeners = new Set<() => void>();
+
+  return {
+    getSelection: () => selection,
+    getAnchorRowId: () => anchorRowId,
+    setSelection: (
+      newSelection: RowSelection,
+      newAnchorRowId: string | null = null
+    ) => {
+      selection = newSelection;
+      anchorRowId = newAnchorRowId;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (onChange: () => void) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+/**
+ * 行の選択のストアの型
+ */
+export type RowSelectionStore = ReturnType<typeof createRowSelectionStore>;
+
+/**
+ * 行が選択されているかどうかを判定する
+ *
+ * @param selection 行の選択
+ * @param rowId 行のID
+ * @returns 選択されている場合はtrue
+ */
+export const isRowSelected = (selection: RowSelection, rowId: string) =>
+  selection.allMatching || selection.rowIds.includes(rowId);
+
+/**
+ * 現在のページの行の選択状態を取得する
+ *
+ * @param selection 行の選択
+ * @param pageRowIds 現在のページの行のID
+ * @returns すべて選択されている場合はtrue、一部のみ選択されている場合は"indeterminate"
+ */
+export const getPageSelectionState = (
+  selection: RowSelection,
+  pageRowIds: readonly string[]
+): boolean | "indeterminate" => {
+  const selectedCount = pageRowIds.filter((rowId) =>
+    isRowSelected(selection, rowId)
+  ).length;
+  if (selectedCount === 0) return false;
+  return selectedCount === pageRowIds.length ? true : "indeterminate";
+};
+
+/**
+ * 行の選択を切り替える
+ *
+ * すべての行を選択している場合は、現在のページの行を選択した状態から切り替えます。
+ * 範囲選択では、起点の行から指定した行までを、指定した行の切り替え後の状態にそろえます
+ * （起点の行が現在のページにない場合は、指定した行のみを切り替えます）。
+ *
+ * @param selection 行の選択
+ * @param rowId 切り替える行のID
+ * @param pageRowIds 現在のページの行のID（表示順）
+ * @param options.mode 行の選択の方式
+ * @param options.anchorRowId 範囲選択の起点の行のID
+ * @param options.range 範囲選択するかどうか
+ * @returns 切り替え後の行の選択
+ */
+export const toggleRowId = (
+  selection: RowSelection,
+  rowId: string,
+  pageRowIds: readonly string[],
+  options: {
+    mode: RowSelectionMode;
+    anchorRowId?: string | null;
+    range?: boolean;
+  }
+): RowSelection => {
+  const rowIds = selection.allMatching ? [...pageRowIds] : selection.rowIds;
+  const selected = !rowIds.includes(rowId);
+
+  if (options.mode === "single") {
+    return { rowIds: selected ? [rowId] : [], allMatching: false };
+  }
+
+  const rowIndex = pageRowIds.indexOf(rowId);
+  const anchorIndex =
+    options.range && options.anchorRowId != null
+      ? pageRowIds.indexOf(options.anchorRowId)
+      : -1;
+  const targetRowIds =
+    rowIndex >= 0 && anchorIndex >= 0
+      ? pageRowIds.slice(
+          Math.min(rowIndex, anchorIndex),
+          Math.max(rowIndex, anchorIndex) + 1
+        )
+      : [rowId];
+
+  return {
+    rowIds: selected
+      ? [...rowIds, ...targetRowIds.filter((id) => !rowIds.includes(id))]
+      : rowIds.filter((id) => !targetRowIds.includes(id)),
+    allMatching: false,
+  };
+};
+
+/**
+ * 現在のページのすべての行の選択を切り替える
+ *
+ * ページのすべての行が選択されている場合は選択を解除し、それ以外の場合はすべて選択します。
+ *
+ * @param selection 行の選択
+ * @param pageRowIds 現在のページの行のID
+ * @returns 切り替え後の行の選択
+ */
+export const togglePageRowIds = (
+  selection: RowSelection,
+  pageRowIds: readonly string[]
+): RowSelection => {
+  if (getPageSelectionState(selection, pageRowIds) === true) {
+    return selection.allMatching
+      ? emptyRowSelection
+      : {
+          rowIds: selection.rowIds.filter((id) => !pageRowIds.includes(id)),
+          allMatching: false,
+        };
+  }
+
+  return {
+    rowIds: [
+      ...selection.rowIds,
+      ...pageRowIds.filter((id) => !selection.rowIds.includes(id)),
+    ],
+    allMatching: false,
+  };
+};
+
+/**
+ * 行の選択から一括操作の対象を取得する
+ *
+ * @param selection 行の選択
+ * @param state テーブルの状態
+ * @returns 一括操作の対象
+ */
+export const getBulkActionTarget = <
+  Columns extends readonly ColumnDefinition[]
+>(
+  selection: RowSelection,
+  state: Pick<TableState<Columns>, "keywordSearch" | "filter">
+): TableBulkActionTarget<Columns> =>
+  selection.allMatching
+    ? {
+        allMatching: true,
+        keywordSearch: state.keywordSearch,
+        filter: state.filter,
+      }
+    : { allMatching: false, rowIds: selection.rowIds };
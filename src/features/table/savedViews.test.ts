@@ -0,0 +1,276 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createSavedViews } from "./savedViews";
+import { createTableActions } from "./tableActions";
+import { createQueryParamsWriter } from "./queryParamsWriter";
+import { createMemoryStore } from "./tableStateStore";
+import { createMemoryViewStorage } from "./viewStorage";
+import { createRowSelectionStore } from "./rowSelection";
+import { createRowExpansionStore } from "./rowExpansion";
+import { createMemoryPreferenceStore } from "./tablePreferences";
+import { defineTableColumnFilter } from "./filterUtils";
+import { ColumnDefinition, StoredTableView, TablePreferences } from "./types";
+
+describe("createSavedViews", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<number>({
+        decodeFromUrl: (value: string) => Number(value),
+        encodeForUrl: (value: number) => value.toString(),
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  const setup = (
+    params?: string,
+    views?: StoredTableView[],
+    preferences?: TablePreferences
+  ) => {
+    const store = createMemoryStore(params);
+    const storage = createMemoryViewStorage(views);
+    const writer = createQueryParamsWriter(
+      columnDefinitions,
+      () => store,
+      preferences ? createMemoryPreferenceStore(preferences) : null
+    );
+    const selectionStore = createRowSelectionStore();
+    const columnWidthStore = createMemoryPreferenceStore({
+      columnWidths: { name: 300 },
+    });
+    const actions = createTableActions(columnDefinitions, writer, {
+      columnWidthStore,
+      selectionStore,
+      expansionStore: createRowExpansionStore(),
+    });
+    const savedViews = createSavedViews(
+      columnDefinitions,
+      writer,
+      actions,
+      storage
+    );
+    return { store, storage, selectionStore, columnWidthStore, savedViews };
+  };
+
+  it("現在の状態をページネーションの位置を除いて保存する", () => {
+    const { storage, savedViews } = setup(
+      "table_sort=name:desc&table_page=3&table_filter_age=20"
+    );
+
+    const id = savedViews.saveView("若い順");
+
+    expect(storage.getViews()).toEqual([
+      {
+        id,
+        name: "若い順",
+        params: "table_sort=name%3Adesc&table_filter_age=20",
+        isDefault: false,
+      },
+    ]);
+  });
+
+  it("保存したビューを適用すると最初のページに戻る", () => {
+    const { store, savedViews } = setup("table_sort=name:desc");
+    const id = savedViews.saveView("名前の降順");
+
+    store.setSearchParams(
+      new URLSearchParams("table_keyword=山田&table_filter_age=20&table_page=2")
+    );
+    savedViews.applyView(id);
+
+    expect(store.getSearchParams().toString()).toBe("table_sort=name%3Adesc");
+  });
+
+  it("保存したビューを適用しても行の選択は変更しない", () => {
+    const { selectionStore, savedViews } = setup();
+    const id = savedViews.saveView("ビュー");
+    selectionStore.setSelection({ rowIds: ["1"], allMatching: false });
+
+    savedViews.applyView(id);
+
+    expect(selectionStore.getSelection()).toEqual({
+      rowIds: ["1"],
+      allMatching: false,
+    });
+  });
+
+  it("ビューの名前を変更し、削除する", () => {
+    const { savedViews } = setup();
+    const id = savedViews.saveView("ビュー");
+
+    savedViews.renameView(id, "新しいビュー");
+    expect(savedViews.getViews().map((view) => view.name)).toEqual([
+      "新しいビュー",
+    ]);
+
+    savedViews.deleteView(id);
+    expect(savedViews.getViews()).toEqual([]);
+  });
+
+  describe("セキュアコンテキスト以外", () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it("crypto.randomUUIDがなくても別々のIDで保存する", () => {
+      vi.stubGlobal("crypto", {});
+      const { savedViews } = setup();
+
+      const first = savedViews.saveView("ビュー1");
+      const second = savedViews.saveView("ビュー2");
+
+      expect(first).not.toBe(second);
+      expect(savedViews.getViews().map((view) => view.id)).toEqual([
+        first,
+        second,
+      ]);
+    });
+  });
+
+  it("デフォルトのビューは1つだけ設定される", () => {
+    const { savedViews } = setup();
+    const first = savedViews.saveView("ビュー1", { isDefault: true });
+    const second = savedViews.saveView("ビュー2", { isDefault: true });
+
+    expect(
+      savedViews
+        .getViews()
+        .filter((view) => view.isDefault)
+        .map((view) => view.id)
+    ).toEqual([second]);
+
+    savedViews.setDefaultView(first);
+    expect(
+      savedViews
+        .getViews()
+        .filter((view) => view.isDefault)
+        .map((view) => view.id)
+    ).toEqual([first]);
+
+    savedViews.setDefaultView(null);
+    expect(savedViews.getViews().some((view) => view.isDefault)).toBe(false);
+  });
+
+  it("削除したカラムのフィルターを含むビューは無効として読み込む", () => {
+    const { savedViews } = setup(undefined, [
+      {
+        id: "broken",
+        name: "削除したカラムでフィルターするビュー",
+        params: "table_filter_status=active&table_filter_age=20",
+        isDefault: false,
+      },
+    ]);
+
+    const [view] = savedViews.getViews();
+
+    expect(view.isValid).toBe(false);
+    expect(view.issues).toEqual([
+      expect.objectContaining({ reason: "unknownColumn", column: "status" }),
+    ]);
+    expect(view.state.filter).toEqual({ age: 20 });
+  });
+
+  it("解析できない状態を含むビューは無効として読み込む", () => {
+    const { savedViews } = setup(undefined, [
+      {
+        id: "broken",
+        name: "削除したカラムのビュー",
+        params: "table_sort=email:asc,name:desc",
+        isDefault: false,
+      },
+    ]);
+
+    const [view] = savedViews.getViews();
+
+    expect(view.isValid).toBe(false);
+    expect(view.issues).toEqual([
+      expect.objectContaining({ reason: "unknownColumn", column: "email" }),
+    ]);
+    expect(view.state.sort).toEqual([{ sortBy: "name", sortOrder: "desc" }]);
+  });
+
+  it("テーブルの状態がない場合のみデフォルトのビューを適用する", () => {
+    const views = [
+      {
+        id: "default",
+        name: "デフォルト",
+        params: "table_sort=age:asc",
+        isDefault: true,
+      },
+    ];
+
+    const empty = setup("other=1", views);
+    empty.savedViews.applyDefaultView();
+    expect(empty.store.getSearchParams().toString()).toBe(
+      "other=1&table_sort=age%3Aasc"
+    );
+
+    const withState = setup("table_keyword=山田", views);
+    withState.savedViews.applyDefaultView();
+    expect(withState.store.getSearchParams().get("table_sort")).toBeNull();
+  });
+
+  it("デフォルトのビューを適用しても列の幅は変更しない", () => {
+    const { store, columnWidthStore, savedViews } = setup(undefined, [
+      {
+        id: "default",
+        name: "デフォルト",
+        params: "table_sort=age:asc",
+        isDefault: true,
+      },
+    ]);
+
+    savedViews.applyDefaultView();
+
+    expect(store.getSearchParams().get("table_sort")).toBe("age:asc");
+    expect(columnWidthStore.getPreferences().columnWidths).toEqual({
+      name: 300,
+    });
+  });
+
+  it("無効なデフォルトのビューは適用しない", () => {
+    const { store, savedViews } = setup(undefined, [
+      {
+        id: "broken",
+        name: "デフォルト",
+        params: "table_sort=email:asc",
+        isDefault: true,
+      },
+    ]);
+
+    savedViews.applyDefaultView();
+
+    expect(store.getSearchParams().toString()).toBe("");
+  });
+
+  it("保存したユーザーの設定はテーブルの状態として扱わずにデフォルトのビューを適用する", () => {
+    const { store, savedViews } = setup(
+      undefined,
+      [
+        {
+          id: "default",
+          name: "デフォルト",
+          params: "table_sort=age:asc",
+          isDefault: true,
+        },
+      ],
+      { columnVisibility: ["name"] }
+    );
+
+    savedViews.applyDefaultView();
+
+    expect(store.getSearchParams().get("table_sort")).toBe("age:asc");
+  });
+});
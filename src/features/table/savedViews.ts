@@ -0,0 +1,212 @@
+import { omit } from "remeda";
+import {
+  ColumnDefinition,
+  PaginationMode,
+  SavedTableView,
+  StoredTableView,
+  TableActionOptions,
+  TableOptions,
+  TableViewStorage,
+} from "./types";
+import { QueryParamsWriter } from "./queryParamsWriter";
+import { TableActions } from "./tableActions";
+import { parseTableStateWithDiagnostics } from "./parseTableState";
+import { encodeTableState } from "./normalizeTableParams";
+import { isCursorPagination } from "./pagination";
+
+/**
+ * ビューのIDを生成する
+ *
+ * `crypto.randomUUID`はセキュアコンテキスト（HTTPS）でしか使えないため、時刻と乱数から生成します。
+ *
+ * @returns ビューのID
+ */
+const createViewId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * 保存したビュー（テーブルの状態の名前付きプリセット）を管理する関数を作成する
+ *
+ * ビューにはページネーションの位置を含めず、適用すると最初のページに戻ります。
+ * 列の幅と行の選択、展開した行はビューに含めず、適用しても変更しません（行の選択は絞り込みが変わる場合のみ解除します）。
+ * 読み込み時は`parseTableState`と同じ解析を行い、カラム定義の変更などで
+ * 解析できない状態を含むビューは`isValid`をfalseにします（適用すると解析できた状態のみを適用します）。
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param writer クエリパラメータのライター
+ * @param actions テーブルのアクション
+ * @param storage ビューのストレージ
+ * @param options テーブルのオプション
+ * @returns 保存したビューを管理する関数
+ */
+export const createSavedViews = <
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+>(
+  columnDefinitions: Columns,
+  writer: QueryParamsWriter,
+  actions: TableActions<Columns>,
+  storage: TableViewStorage,
+  options?: TableOptions<Mode>
+) => {
+  const { queryKeys } = writer;
+
+  /**
+   * ビューの状態から、ビューに含めない状態（列の幅と行の選択、展開した行）を除く
+   *
+   * @param view 状態を解析したビュー
+   * @returns 適用する状態
+   */
+  const getViewState = (view: SavedTableView<Columns, Mode>) =>
+    omit(view.state, ["columnWidths", "selection", "expandedRowIds"]);
+
+  /**
+   * 保存したビューを読み込む
+   *
+   * @param view 保存したビュー
+   * @returns 状態を解析したビュー
+   */
+  const loadView = (view: StoredTableView): SavedTableView<Columns, Mode> => {
+    const { state, issues } = parseTableStateWithDiagnostics(
+      new URLSearchParams(view.params),
+      queryKeys,
+      columnDefinitions,
+      options
+    );
+    return { ...view, state, issues, isValid: issues.length === 0 };
+  };
+
+  /**
+   * 保存したビューを取得する
+   *
+   * @returns 状態を解析したビューの配列
+   */
+  const getViews = () => storage.getViews().map(loadView);
+
+  /**
+   * ビューを変更して保存する
+   *
+   * @param update ビューの配列を変更する関数
+   */
+  const updateViews = (
+    update: (views: readonly StoredTableView[]) => StoredTableView[]
+  ) => {
+    storage.setViews(update(storage.getViews()));
+  };
+
+  /**
+   * 現在の状態をビューとして保存する
+   *
+   * @param name ビューの名前
+   * @param viewOptions.isDefault デフォルトのビューにするかどうか
+   * @returns 保存したビューのID
+   */
+  const saveView = (name: string, viewOptions?: { isDefault?: boolean }) => {
+    const { state } = parseTableStateWithDiagnostics(
+      writer.getLatestParams(),
+      queryKeys,
+      columnDefinitions,
+      options
+    );
+    const { pageSize } = state.pagination;
+    const params = encodeTableState(
+      {
+        ...state,
+        expandedRowIds: [],
+        // ページネーションの位置は保存しない
+        pagination: isCursorPagination(state.pagination)
+          ? { cursor: null, cursorStack: [], pageSize }
+          : { page: 1, pageSize },
+      },
+      queryKeys,
+      columnDefinitions,
+      options
+    );
+
+    const id = createViewId();
+    const isDefault = viewOptions?.isDefault ?? false;
+    updateViews((views) => [
+      ...views.map((view) =>
+        isDefault ? { ...view, isDefault: false } : view
+      ),
+      { id, name, params: params.toString(), isDefault },
+    ]);
+    return id;
+  };
+
+  /**
+   * ビューを適用する
+   *
+   * @param id ビューのID
+   * @param actionOptions アクションのオプション
+   */
+  const applyView = (id: string, actionOptions?: TableActionOptions) => {
+    const view = storage.getViews().find((view) => view.id === id);
+    if (!view) return;
+
+    actions.setState(getViewState(loadView(view)), actionOptions);
+  };
+
+  /**
+   * ビューの名前を変更する
+   *
+   * @param id ビューのID
+   * @param name 新しい名前
+   */
+  const renameView = (id: string, name: string) => {
+    updateViews((views) =>
+      views.map((view) => (view.id === id ? { ...view, name } : view))
+    );
+  };
+
+  /**
+   * ビューを削除する
+   *
+   * @param id ビューのID
+   */
+  const deleteView = (id: string) => {
+    updateViews((views) => views.filter((view) => view.id !== id));
+  };
+
+  /**
+   * デフォルトのビューを設定する
+   *
+   * @param id ビューのID（nullの場合はデフォルトのビューを解除）
+   */
+  const setDefaultView = (id: string | null) => {
+    updateViews((views) =>
+      views.map((view) => ({ ...view, isDefault: view.id === id }))
+    );
+  };
+
+  /**
+   * テーブルの状態がない場合にデフォルトのビューを適用する
+   *
+   * 解析できない状態を含むデフォルトのビューは適用しません。
+   * 履歴は追加せずに現在の履歴を置き換えます。
+   */
+  const applyDefaultView = () => {
+    // 保存したユーザーの設定で補った状態は含めない
+    const hasTableState = [...writer.getCommittedParams().keys()].some(
+      (key) =>
+        key === queryKeys.compact || key.startsWith(`${queryKeys.compact}_`)
+    );
+    if (hasTableState) return;
+
+    const defaultView = getViews().find((view) => view.isDefault);
+    if (!defaultView?.isValid) return;
+
+    actions.setState(getViewState(defaultView), { history: "replace" });
+  };
+
+  return {
+    loadView,
+    getViews,
+    saveView,
+    applyView,
+    renameView,
+    deleteView,
+    setDefaultView,
+    applyDefaultView,
+  };
+};
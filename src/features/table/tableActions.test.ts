@@ -0,0 +1,729 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createTableActions, TableLocalStores } from "./tableActions";
+import { createQueryParamsWriter } from "./queryParamsWriter";
+import { createMemoryStore } from "./tableStateStore";
+import { createMemoryPreferenceStore } from "./tablePreferences";
+import { createRowSelectionStore } from "./rowSelection";
+import { createRowExpansionStore } from "./rowExpansion";
+import { defineTableColumnFilter } from "./filterUtils";
+import { ColumnDefinition, TableOptions, TableStateStore } from "./types";
+
+describe("createTableActions", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      pinnable: true,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+      pinnable: true,
+      minWidth: 60,
+      maxWidth: 200,
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  /**
+   * URLに保存しない状態のストアを作成する（指定したストア以外は新しく作成する）
+   */
+  const createLocalStores = (
+    stores?: Partial<TableLocalStores>
+  ): TableLocalStores => ({
+    columnWidthStore: createMemoryPreferenceStore(),
+    selectionStore: createRowSelectionStore(),
+    expansionStore: createRowExpansionStore(),
+    ...stores,
+  });
+
+  const createActions = (
+    store: TableStateStore,
+    options?: TableOptions,
+    localStores?: Partial<TableLocalStores>
+  ) =>
+    createTableActions(
+      columnDefinitions,
+      createQueryParamsWriter(columnDefinitions, () => store, null, options),
+      createLocalStores(localStores),
+      options
+    );
+
+  /**
+   * 書き込んだクエリパラメータを、次のsetSearchParamsまで読み取りに反映しないストアを作成する
+   * （Next.jsのルーターのように非同期に反映されるストアを再現する）
+   */
+  const createDeferredStore = (initial?: string) => {
+    let searchParams = new URLSearchParams(initial);
+    let written: URLSearchParams | null = null;
+    const store: TableStateStore = {
+      getSearchParams: () => searchParams,
+      setSearchParams: (newParams) => {
+        written = new URLSearchParams(newParams);
+      },
+      subscribe: () => () => {},
+    };
+    const commit = () => {
+      if (written) searchParams = written;
+      written = null;
+    };
+    return { store, commit };
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("連続したtoggleSortが直前の変更をもとに次の状態を計算する", () => {
+    const store = createMemoryStore();
+    const actions = createActions(store);
+
+    actions.toggleSort("name");
+    expect(store.getSearchParams().get("table_sort")).toBe("name:asc");
+    actions.toggleSort("name");
+    expect(store.getSearchParams().get("table_sort")).toBe("name:desc");
+    actions.toggleSort("name");
+    expect(store.getSearchParams().get("table_sort")).toBeNull();
+  });
+
+  it("連続したtoggleMultiSortが直前の変更をもとに次の状態を計算する", () => {
+    const store = createMemoryStore();
+    const actions = createActions(store);
+
+    actions.toggleMultiSort("name");
+    actions.toggleMultiSort("age");
+    actions.toggleMultiSort("name");
+
+    expect(store.getSearchParams().get("table_sort")).toBe("name:desc,age:asc");
+  });
+
+  it("ストアへの反映前でも書き込んだ状態をもとに次の状態を計算する", () => {
+    const { store, commit } = createDeferredStore();
+    const actions = createActions(store);
+
+    actions.toggleSort("name");
+    actions.toggleSort("name");
+    commit();
+
+    expect(store.getSearchParams().get("table_sort")).toBe("name:desc");
+  });
+
+  it("ストアが外部から変更された場合は最新のストアの状態を使用する", () => {
+    const store = createMemoryStore();
+    const actions = createActions(store);
+
+    actions.toggleSort("name");
+    store.setSearchParams(new URLSearchParams("table_sort=age:desc"));
+    actions.toggleMultiSort("name");
+
+    expect(store.getSearchParams().get("table_sort")).toBe("age:desc,name:asc");
+  });
+
+  it("同じストアを共有する複数のアクションが互いの変更をもとに次の状態を計算する", () => {
+    const store = createMemoryStore();
+    const first = createActions(store);
+    const second = createActions(store);
+
+    first.toggleSort("name");
+    second.toggleSort("name");
+    first.setKeywordSearch("山田");
+    second.setColumnVisibility("age", false);
+
+    const searchParams = store.getSearchParams();
+    expect(searchParams.get("table_sort")).toBe("name:desc");
+    expect(searchParams.get("table_keyword")).toBe("山田");
+    expect(searchParams.get("table_columns")).toBe("name");
+  });
+
+  it("batch中の変更は直前の変更をもとに計算し、1回で書き込む", () => {
+    const store = createMemoryStore();
+    const setSearchParams = vi.spyOn(store, "setSearchParams");
+    const actions = createActions(store);
+
+    actions.batch(() => {
+      actions.toggleMultiSort("name");
+      actions.toggleMultiSort("name");
+      actions.toggleMultiSort("age");
+    });
+
+    expect(setSearchParams).toHaveBeenCalledTimes(1);
+    expect(store.getSearchParams().get("table_sort")).toBe("name:desc,age:asc");
+  });
+
+  it("デバウンス中の変更は直前の変更をもとに計算し、まとめて書き込む", () => {
+    vi.useFakeTimers();
+    const store = createMemoryStore();
+    const setSearchParams = vi.spyOn(store, "setSearchParams");
+    const actions = createActions(store, { debounceMs: 100 });
+
+    actions.toggleSort("name");
+    actions.toggleSort("name");
+    expect(setSearchParams).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(100);
+    expect(setSearchParams).toHaveBeenCalledTimes(1);
+    expect(store.getSearchParams().get("table_sort")).toBe("name:desc");
+  });
+
+  it("cancelでデバウンス中の変更を破棄する", () => {
+    vi.useFakeTimers();
+    const store = createMemoryStore();
+    const writer = createQueryParamsWriter(
+      columnDefinitions,
+      () => store,
+      null,
+      {
+        debounceMs: 100,
+      }
+    );
+    const actions = createTableActions(
+      columnDefinitions,
+      writer,
+      createLocalStores(),
+      {
+        debounceMs: 100,
+      }
+    );
+
+    actions.setKeywordSearch("山田");
+    writer.cancel();
+    vi.advanceTimersByTime(100);
+
+    expect(store.getSearchParams().get("table_keyword")).toBeNull();
+  });
+
+  it("連続したmoveColumnが直前の変更をもとに列を移動する", () => {
+    const store = createMemoryStore();
+    const actions = createActions(store);
+
+    actions.moveColumn("age", 0);
+    expect(store.getSearchParams().get("table_order")).toBe("age,name");
+    actions.moveColumn("age", 1);
+    expect(store.getSearchParams().get("table_order")).toBeNull();
+  });
+
+  it("setColumnOrderで指定しなかったカラムはカラム定義の順に末尾に追加する", () => {
+    const store = createMemoryStore();
+    const actions = createActions(store);
+
+    actions.setColumnOrder(["age"]);
+
+    expect(store.getSearchParams().get("table_order")).toBe("age,name");
+  });
+
+  it("pinColumnで列を固定し、反対側に固定した列は移動する", () => {
+    const store = createMemoryStore();
+    const actions = createActions(store);
+
+    actions.pinColumn("name", "left");
+    actions.pinColumn("age", "left");
+    expect(store.getSearchParams().get("table_pin_left")).toBe("name,age");
+
+    actions.pinColumn("name", "right");
+    expect(store.getSearchParams().get("table_pin_left")).toBe("age");
+    expect(store.getSearchParams().get("table_pin_right")).toBe("name");
+  });
+
+  it("unpinColumnで列の固定を解除する", () => {
+    const store = createMemoryStore("table_pin_left=name,age");
+    const actions = createActions(store);
+
+    actions.unpinColumn("name");
+
+    expect(store.getSearchParams().get("table_pin_left")).toBe("age");
+  });
+
+  it("setColumnWidthで列の幅を最小値・最大値の範囲に収めて保存し、URLには書き込まない", () => {
+    const store = createMemoryStore();
+    const columnWidthStore = createMemoryPreferenceStore();
+    const actions = createActions(store, undefined, { columnWidthStore });
+
+    actions.setColumnWidth("name", 120.4);
+    actions.setColumnWidth("age", 500);
+
+    expect(columnWidthStore.getPreferences().columnWidths).toEqual({
+      name: 120,
+      age: 200,
+    });
+    expect(store.getSearchParams().toString()).toBe("");
+  });
+
+  it("resetColumnWidthで列の幅を初期値に戻し、resetAllですべての列の幅を戻す", () => {
+    const columnWidthStore = createMemoryPreferenceStore({
+      columnWidths: { name: 120, age: 80 },
+    });
+    const actions = createActions(createMemoryStore(), undefined, {
+      columnWidthStore,
+    });
+
+    actions.resetColumnWidth("name");
+    expect(columnWidthStore.getPreferences().columnWidths).toEqual({
+      age: 80,
+    });
+
+    actions.resetAll();
+    expect(columnWidthStore.getPreferences().columnWidths).toEqual({});
+  });
+
+  it("Shift+クリックの範囲選択は直前に切り替えた行を起点にする", () => {
+    const selectionStore = createRowSelectionStore();
+    const actions = createActions(createMemoryStore(), undefined, {
+      selectionStore,
+    });
+    const pageRowIds = ["a", "b", "c", "d"];
+
+    actions.toggleRowSelection("a", pageRowIds);
+    actions.toggleRowSelection("c", pageRowIds, { range: true });
+
+    expect(selectionStore.getSelection()).toEqual({
+      rowIds: ["a", "b", "c"],
+      allMatching: false,
+    });
+  });
+
+  it("単一選択ではすべての行を選択できない", () => {
+    const selectionStore = createRowSelectionStore();
+    const options: TableOptions = {
+      selection: { getRowId: (row) => row.id, mode: "single" },
+    };
+    const actions = createActions(createMemoryStore(), options, {
+      selectionStore,
+    });
+
+    actions.togglePageSelection(["a", "b"]);
+    actions.selectAllMatching();
+    expect(selectionStore.getSelection()).toEqual({
+      rowIds: [],
+      allMatching: false,
+    });
+
+    actions.toggleRowSelection("a", ["a", "b"]);
+    actions.toggleRowSelection("b", ["a", "b"], { range: true });
+    expect(selectionStore.getSelection()).toEqual({
+      rowIds: ["b"],
+      allMatching: false,
+    });
+  });
+
+  it("selectAllMatchingですべての行を選択し、resetAllで選択を解除する", () => {
+    const selectionStore = createRowSelectionStore();
+    const actions = createActions(createMemoryStore(), undefined, {
+      selectionStore,
+    });
+
+    actions.selectAllMatching();
+    expect(selectionStore.getSelection()).toEqual({
+      rowIds: [],
+      allMatching: true,
+    });
+
+    actions.resetAll();
+    expect(selectionStore.getSelection()).toEqual({
+      rowIds: [],
+      allMatching: false,
+    });
+  });
+
+  it("toggleRowExpansionで行を展開・折りたたみ、URLには書き込まない", () => {
+    const store = createMemoryStore();
+    const expansionStore = createRowExpansionStore();
+    const actions = createActions(store, undefined, { expansionStore });
+
+    actions.toggleRowExpansion("a");
+    actions.toggleRowExpansion("b");
+    expect(expansionStore.getExpandedRowIds()).toEqual(["a", "b"]);
+
+    actions.toggleRowExpansion("a");
+    expect(expansionStore.getExpandedRowIds()).toEqual(["b"]);
+    expect(store.getSearchParams().toString()).toBe("");
+  });
+
+  it("persistInUrlでは最後に展開した行のみURLに保存し、以前の行は展開したままにする", () => {
+    const store = createMemoryStore();
+    const expansionStore = createRowExpansionStore();
+    const options: TableOptions = {
+      expansion: {
+        getRowId: (row) => row.id,
+        renderExpandedRow: () => null,
+        persistInUrl: true,
+      },
+    };
+    const actions = createActions(store, options, { expansionStore });
+
+    actions.toggleRowExpansion("a");
+    expect(store.getSearchParams().get("table_expanded")).toBe("a");
+    expect(expansionStore.getExpandedRowIds()).toEqual([]);
+
+    actions.toggleRowExpansion("b");
+    expect(store.getSearchParams().get("table_expanded")).toBe("b");
+    expect(expansionStore.getExpandedRowIds()).toEqual(["a"]);
+
+    // URLの行を閉じると、直前に展開した行をURLに保存する
+    actions.toggleRowExpansion("b");
+    expect(store.getSearchParams().get("table_expanded")).toBe("a");
+    expect(expansionStore.getExpandedRowIds()).toEqual([]);
+  });
+
+  it("expandAllで現在のページの行を展開し、collapseAllですべての行を閉じる", () => {
+    const store = createMemoryStore("table_expanded=x");
+    const expansionStore = createRowExpansionStore();
+    const options: TableOptions = {
+      expansion: {
+        getRowId: (row) => row.id,
+        renderExpandedRow: () => null,
+        persistInUrl: true,
+      },
+    };
+    const actions = createActions(store, options, { expansionStore });
+
+    actions.expandAll(["a", "b"]);
+    expect(expansionStore.getExpandedRowIds()).toEqual(["a", "b"]);
+    expect(store.getSearchParams().get("table_expanded")).toBe("x");
+
+    actions.collapseAll();
+    expect(expansionStore.getExpandedRowIds()).toEqual([]);
+    expect(store.getSearchParams().has("table_expanded")).toBe(false);
+  });
+
+  describe("履歴の扱い", () => {
+    /**
+     * 書き込みごとに履歴を追加したか置き換えたかを記録するストアを作成する
+     */
+    const createSpyStore = (initial?: string) => {
+      const store = createMemoryStore(initial);
+      const setSearchParams = vi.spyOn(store, "setSearchParams");
+      const getHistoryModes = () =>
+        setSearchParams.mock.calls.map(([, writeOptions]) =>
+          writeOptions?.replace ? "replace" : "push"
+        );
+      return { store, getHistoryModes };
+    };
+
+    type Action = (actions: ReturnType<typeof createActions>) => void;
+    const nonNavigationalActions: [string, Action][] = [
+      ["setKeywordSearch", (actions) => actions.setKeywordSearch("山田")],
+      ["toggleSort", (actions) => actions.toggleSort("name")],
+      [
+        "setColumnVisibility",
+        (actions) => actions.setColumnVisibility("age", false),
+      ],
+      ["pinColumn", (actions) => actions.pinColumn("name", "left")],
+      ["setPageSize", (actions) => actions.setPageSize(20)],
+      ["resetAll", (actions) => actions.resetAll()],
+    ];
+    const navigationalActions: [string, Action][] = [
+      ["setPagination", (actions) => actions.setPagination(2)],
+      [
+        "setState（ページネーションを含む）",
+        (actions) =>
+          actions.setState({ pagination: { page: 2, pageSize: 10 } }),
+      ],
+    ];
+
+    it.each([...nonNavigationalActions, ...navigationalActions])(
+      "デフォルトでは%sで履歴を追加する",
+      (_, action) => {
+        const { store, getHistoryModes } = createSpyStore("table_page=3");
+        action(createActions(store, { pageSizeOptions: [10, 20] }));
+
+        expect(getHistoryModes()).toEqual(["push"]);
+      }
+    );
+
+    it.each([...nonNavigationalActions, ...navigationalActions])(
+      "replaceでは%sで現在の履歴を置き換える",
+      (_, action) => {
+        const { store, getHistoryModes } = createSpyStore("table_page=3");
+        action(
+          createActions(store, {
+            history: "replace",
+            pageSizeOptions: [10, 20],
+          })
+        );
+
+        expect(getHistoryModes()).toEqual(["replace"]);
+      }
+    );
+
+    it.each(nonNavigationalActions)(
+      "navigationalでは%sで現在の履歴を置き換える",
+      (_, action) => {
+        const { store, getHistoryModes } = createSpyStore("table_page=3");
+        action(
+          createActions(store, {
+            history: "navigational",
+            pageSizeOptions: [10, 20],
+          })
+        );
+
+        expect(getHistoryModes()).toEqual(["replace"]);
+      }
+    );
+
+    it.each(navigationalActions)(
+      "navigationalでは%sで履歴を追加する",
+      (_, action) => {
+        const { store, getHistoryModes } = createSpyStore("table_page=3");
+        action(createActions(store, { history: "navigational" }));
+
+        expect(getHistoryModes()).toEqual(["push"]);
+      }
+    );
+
+    it("navigationalではカーソルによるページの移動で履歴を追加する", () => {
+      const { store, getHistoryModes } = createSpyStore();
+      const actions = createActions(store, {
+        history: "navigational",
+        paginationMode: "cursor",
+      });
+
+      actions.nextPage("c1");
+      actions.prevPage();
+      actions.setKeywordSearch("山田");
+
+      expect(getHistoryModes()).toEqual(["push", "push", "replace"]);
+    });
+
+    it("アクションごとの指定をテーブルの指定より優先する", () => {
+      const { store, getHistoryModes } = createSpyStore();
+      const actions = createActions(store, { history: "navigational" });
+
+      actions.setKeywordSearch("山田", { history: "push" });
+      actions.setPagination(2, { history: "replace" });
+
+      expect(getHistoryModes()).toEqual(["push", "replace"]);
+    });
+
+    it("まとめて書き込む変更に履歴を追加する変更がある場合は履歴を追加する", () => {
+      vi.useFakeTimers();
+      const { store, getHistoryModes } = createSpyStore();
+      const actions = createActions(store, {
+        history: "navigational",
+        debounceMs: 100,
+      });
+
+      actions.setKeywordSearch("山田");
+      actions.setPagination(2);
+      vi.advanceTimersByTime(100);
+
+      expect(getHistoryModes()).toEqual(["push"]);
+    });
+
+    it("まとめて書き込む変更がすべて置き換える変更の場合は現在の履歴を置き換える", () => {
+      vi.useFakeTimers();
+      const { store, getHistoryModes } = createSpyStore();
+      const actions = createActions(store, {
+        history: "navigational",
+        debounceMs: 100,
+      });
+
+      actions.setKeywordSearch("山田");
+      actions.toggleSort("name");
+      vi.advanceTimersByTime(100);
+
+      expect(getHistoryModes()).toEqual(["replace"]);
+    });
+  });
+
+  describe("状態の一括変更とフィルターの削除", () => {
+    const filterableColumnDefinitions = [
+      {
+        key: "name",
+        renderHeadCell: () => "名前",
+        sortable: true,
+        initialVisibility: true,
+        filter: defineTableColumnFilter<string>({
+          decodeFromUrl: (value: string) => value,
+          encodeForUrl: (value: string) => value,
+          renderPopupContent: () => null,
+          renderFilterChipContent: () => null,
+          initial: null,
+        }),
+      },
+      {
+        key: "age",
+        renderHeadCell: () => "年齢",
+        sortable: true,
+        initialVisibility: true,
+        filter: defineTableColumnFilter<number>({
+          decodeFromUrl: (value: string) => Number(value),
+          encodeForUrl: (value: number) => value.toString(),
+          renderPopupContent: () => null,
+          renderFilterChipContent: () => null,
+          initial: null,
+        }),
+      },
+    ] as const satisfies ColumnDefinition[];
+
+    const createFilterableActions = (
+      store: TableStateStore,
+      localStores?: Partial<TableLocalStores>
+    ) =>
+      createTableActions(
+        filterableColumnDefinitions,
+        createQueryParamsWriter(filterableColumnDefinitions, () => store, null),
+        createLocalStores(localStores)
+      );
+
+    type FilterableActions = ReturnType<typeof createFilterableActions>;
+
+    it("setStateで指定した状態のみを1回で書き込み、フィルターは指定したカラムのみ変更する", () => {
+      const store = createMemoryStore(
+        "table_filter_name=山田&table_filter_age=20&table_columns=name"
+      );
+      const setSearchParams = vi.spyOn(store, "setSearchParams");
+      const actions = createFilterableActions(store);
+
+      actions.setState({
+        sort: [{ sortBy: "age", sortOrder: "desc" }],
+        filter: { age: 30 },
+      });
+
+      expect(setSearchParams).toHaveBeenCalledTimes(1);
+      expect(Object.fromEntries(store.getSearchParams())).toEqual({
+        table_filter_name: "山田",
+        table_filter_age: "30",
+        table_columns: "name",
+        table_sort: "age:desc",
+      });
+    });
+
+    it("setStateでnullを指定したフィルターを削除する", () => {
+      const store = createMemoryStore(
+        "table_filter_name=山田&table_filter_age=20"
+      );
+      const actions = createFilterableActions(store);
+
+      actions.setState({ filter: { name: null } });
+
+      expect(store.getSearchParams().toString()).toBe("table_filter_age=20");
+    });
+
+    it("setStateでキーワード検索かフィルターを変更すると最初のページに戻る", () => {
+      const store = createMemoryStore("table_page=3");
+      const actions = createFilterableActions(store);
+
+      actions.setState({ keywordSearch: "山田" });
+      expect(store.getSearchParams().get("table_page")).toBeNull();
+
+      store.setSearchParams(new URLSearchParams("table_page=3"));
+      actions.setState({ filter: { age: 20 } });
+      expect(store.getSearchParams().get("table_page")).toBeNull();
+    });
+
+    it("setStateでページネーションを指定した場合は指定したページにする", () => {
+      const store = createMemoryStore("table_page=3");
+      const actions = createFilterableActions(store);
+
+      actions.setState({
+        keywordSearch: "山田",
+        pagination: { page: 2, pageSize: 10 },
+      });
+
+      expect(Object.fromEntries(store.getSearchParams())).toEqual({
+        table_keyword: "山田",
+        table_page: "2",
+      });
+    });
+
+    it("setStateでキーワード検索とフィルター以外を変更してもページは変わらない", () => {
+      const store = createMemoryStore("table_page=3");
+      const actions = createFilterableActions(store);
+
+      actions.setState({ sort: [{ sortBy: "name", sortOrder: "asc" }] });
+
+      expect(store.getSearchParams().get("table_page")).toBe("3");
+    });
+
+    it("resetFiltersですべてのフィルターを削除し、最初のページに戻る", () => {
+      const store = createMemoryStore(
+        "table_filter_name=山田&table_filter_age=20&table_sort=age:asc&table_page=3"
+      );
+      const actions = createFilterableActions(store);
+
+      actions.resetFilters();
+
+      expect(store.getSearchParams().toString()).toBe("table_sort=age%3Aasc");
+    });
+
+    it("clearFilterで指定したカラムのフィルターのみを削除し、最初のページに戻る", () => {
+      const store = createMemoryStore(
+        "table_filter_name=山田&table_filter_age=20&table_page=3"
+      );
+      const actions = createFilterableActions(store);
+
+      actions.clearFilter("name");
+
+      expect(store.getSearchParams().toString()).toBe("table_filter_age=20");
+    });
+
+    it("setFilterで最初のページに戻る", () => {
+      const store = createMemoryStore("table_page=3");
+      const actions = createFilterableActions(store);
+
+      actions.setFilter("name", "山田");
+
+      expect(Object.fromEntries(store.getSearchParams())).toEqual({
+        table_filter_name: "山田",
+      });
+    });
+
+    it.each<[string, (actions: FilterableActions) => void]>([
+      ["setKeywordSearch", (actions) => actions.setKeywordSearch("佐藤")],
+      ["setFilter", (actions) => actions.setFilter("age", 30)],
+      ["clearFilter", (actions) => actions.clearFilter("name")],
+      ["resetFilters", (actions) => actions.resetFilters()],
+      ["setState", (actions) => actions.setState({ filter: { age: 30 } })],
+    ])("%sで絞り込みが変わると行の選択を解除する", (_, change) => {
+      const selectionStore = createRowSelectionStore();
+      const actions = createFilterableActions(
+        createMemoryStore("table_keyword=山田&table_filter_name=山田"),
+        { selectionStore }
+      );
+
+      actions.selectAllMatching();
+      change(actions);
+      expect(selectionStore.getSelection()).toEqual({
+        rowIds: [],
+        allMatching: false,
+      });
+
+      actions.togglePageSelection(["a", "b"]);
+      actions.setKeywordSearch("鈴木");
+      expect(selectionStore.getSelection()).toEqual({
+        rowIds: [],
+        allMatching: false,
+      });
+    });
+
+    it("絞り込みが変わらない場合や、setStateで選択を指定した場合は選択を解除しない", () => {
+      const selectionStore = createRowSelectionStore();
+      const actions = createFilterableActions(
+        createMemoryStore("table_keyword=山田"),
+        { selectionStore }
+      );
+
+      actions.togglePageSelection(["a", "b"]);
+      actions.setKeywordSearch("山田");
+      actions.setState({ sort: [{ sortBy: "age", sortOrder: "asc" }] });
+      expect(selectionStore.getSelection()).toEqual({
+        rowIds: ["a", "b"],
+        allMatching: false,
+      });
+
+      actions.setState({
+        keywordSearch: "佐藤",
+        selection: { rowIds: ["c"], allMatching: false },
+      });
+      expect(selectionStore.getSelection()).toEqual({
+        rowIds: ["c"],
+        allMatching: false,
+      });
+    });
+  });
+});
@@ -0,0 +1,877 @@
+import {
+  ColumnDefinition,
+  ExtractColumnKeys,
+  SortableColumnKeys,
+  PinnableColumnKeys,
+  ColumnPinSide,
+  SortDescriptor,
+  FilterableColumnKeys,
+  FilterTypeByColumnKey,
+  TableOptions,
+  PaginationMode,
+  TableActionOptions,
+  TableHistoryPolicy,
+  TableStatePatch,
+  TablePreferenceStore,
+} from "./types";
+import { QueryParamsWriter } from "./queryParamsWriter";
+import {
+  encodeCursorStack,
+  encodeSort,
+  getQueryKeys,
+  parseTableState,
+} from "./parseTableState";
+import {
+  getPageForPageSize,
+  getPageSizeOptions,
+  isCursorPagination,
+} from "./pagination";
+import { moveColumnKey } from "./columnOrder";
+import { clampColumnWidth, parseColumnWidths } from "./columnWidths";
+import {
+  emptyRowSelection,
+  RowSelectionStore,
+  toggleRowId,
+  togglePageRowIds,
+} from "./rowSelection";
+import {
+  emptyExpandedRowIds,
+  mergeExpandedRowIds,
+  RowExpansionStore,
+} from "./rowExpansion";
+
+/**
+ * URLに保存しない状態のストア
+ */
+export type TableLocalStores = {
+  /**
+   * 列の幅を保存するストア
+   */
+  columnWidthStore: TablePreferenceStore;
+  /**
+   * 行の選択を保存するストア
+   */
+  selectionStore: RowSelectionStore;
+  /**
+   * 展開した行を保存するストア
+   */
+  expansionStore: RowExpansionStore;
+};
+
+/**
+ * 履歴を置き換えるかどうかを決める
+ *
+ * @param history テーブルの履歴の扱い
+ * @param navigational ページの移動かどうか
+ * @param actionOptions アクションごとのオプション
+ * @returns 現在の履歴を置き換える場合はtrue
+ */
+const shouldReplace = (
+  history: TableHistoryPolicy | undefined,
+  navigational: boolean,
+  actionOptions?: TableActionOptions
+): boolean => {
+  const resolved =
+    actionOptions?.history ??
+    (history === "navigational"
+      ? navigational
+        ? "push"
+        : "replace"
+      : history ?? "push");
+  return resolved === "replace";
+};
+
+/**
+ * すべてのフィルターを削除するクエリパラメータの更新内容を作成する
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param queryKeys クエリパラメータのキー
+ * @returns フィルターのクエリパラメータをすべて削除する更新内容
+ */
+const getFilterResetUpdates = (
+  columnDefinitions: readonly ColumnDefinition[],
+  queryKeys: ReturnType<typeof getQueryKeys>
+): Record<string, null> =>
+  Object.fromEntries(
+    columnDefinitions
+      .filter((col) => col.filter !== null)
+      .map((col) => [`${queryKeys.filterPrefix}${col.key}`, null])
+  );
+
+/**
+ * テーブルのアクションを作成する
+ *
+ * テーブルごとに1つ作成するため、アクションは再レンダリングをまたいで同じ関数です。
+ * 呼び出し時に最新のクエリパラメータ（書き込み待ちの更新を含む）から状態を読むため、
+ * 連続して呼んだ場合や複数のコンポーネントから呼んだ場合も、直前の変更をもとに次の状態を計算します。
+ * 列の幅と行の選択、展開した行はURLに書き込まず、それぞれのストアに保存します
+ * （`options.expansion.persistInUrl`を指定した場合、最後に展開した行のみURLに書き込みます）。
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param writer クエリパラメータのライター
+ * @param localStores URLに保存しない状態のストア
+ * @param options テーブルのオプション
+ * @returns テーブルのアクション関数
+ */
+export const createTableActions = <Columns extends readonly ColumnDefinition[]>(
+  columnDefinitions: Columns,
+  writer: QueryParamsWriter,
+  localStores: TableLocalStores,
+  options?: TableOptions
+) => {
+  const { queryKeys, update: updateQueryParams, batch } = writer;
+  const { columnWidthStore, selectionStore, expansionStore } = localStores;
+  const selectionMode = options?.selection?.mode ?? "multi";
+  const persistExpandedRowInUrl = options?.expansion?.persistInUrl ?? false;
+
+  /**
+   * 最新のテーブルの状態を取得する
+   *
+   * @returns 書き込み待ちの更新を含む最新の状態
+   */
+  const getState = () =>
+    parseTableState(
+      writer.getLatestParams(),
+      queryKeys,
+      columnDefinitions,
+      options as TableOptions<PaginationMode>
+    );
+
+  /**
+   * 保存した列の幅を取得する
+   *
+   * @returns カラム定義にあるカラムの列の幅
+   */
+  const getColumnWidths = () =>
+    parseColumnWidths(
+      columnDefinitions,
+      columnWidthStore.getPreferences().columnWidths
+    );
+
+  /**
+   * 列の幅を保存する（ほかの設定は保つ）
+   *
+   * @param columnWidths 列の幅
+   */
+  const saveColumnWidths = (columnWidths: Partial<Record<string, number>>) => {
+    columnWidthStore.setPreferences({
+      ...columnWidthStore.getPreferences(),
+      columnWidths: parseColumnWidths(columnDefinitions, columnWidths),
+    });
+  };
+
+  /**
+   * 絞り込み（キーワード検索とフィルター）が変わる場合は行の選択を解除する
+   *
+   * 絞り込みに一致しなくなった行が選択されたままになったり、
+   * 一致するすべての行の選択が新しい絞り込みに移ったりしないようにします。
+   *
+   * @param updates クエリパラメータの更新内容
+   */
+  const clearSelectionOnFilterChange = (
+    updates: Record<string, string | null>
+  ) => {
+    const latestParams = writer.getLatestParams();
+    const isFilterChanged = Object.entries(updates).some(
+      ([key, value]) =>
+        (key === queryKeys.keywordSearch ||
+          key.startsWith(queryKeys.filterPrefix)) &&
+        latestParams.get(key) !== value
+    );
+    if (isFilterChanged) selectionStore.setSelection(emptyRowSelection);
+  };
+
+  /**
+   * 展開した行を保存する
+   *
+   * URLに保存する場合は最後の行のみをURLに書き込み、それ以外の行をストアに保存します。
+   *
+   * @param rowIds 展開した行のID
+   * @param actionOptions アクションのオプション
+   */
+  const saveExpandedRowIds = (
+    rowIds: readonly string[],
+    actionOptions?: TableActionOptions
+  ) => {
+    if (!persistExpandedRowInUrl) {
+      expansionStore.setExpandedRowIds(rowIds);
+      return;
+    }
+
+    expansionStore.setExpandedRowIds(rowIds.slice(0, -1));
+    const urlRowId = rowIds[rowIds.length - 1] ?? null;
+    if (urlRowId !== (getState().expandedRowIds[0] ?? null)) {
+      updateQueryParams(
+        { [queryKeys.expandedRow]: urlRowId },
+        false,
+        shouldReplace(options?.history, false, actionOptions)
+      );
+    }
+  };
+
+  // アクション関数
+  const actions = {
+    /**
+     * キーワード検索を設定
+     *
+     * キーワードが変わる場合は行の選択を解除します。
+     *
+     * @param keyword 検索キーワード
+     * @param actionOptions アクションのオプション
+     */
+    setKeywordSearch: (keyword: string, actionOptions?: TableActionOptions) => {
+      const updates = { [queryKeys.keywordSearch]: keyword || null };
+      clearSelectionOnFilterChange(updates);
+      updateQueryParams(
+        updates,
+        true,
+        shouldReplace(options?.history, false, actionOptions)
+      );
+    },
+
+    /**
+     * ソート設定を変更
+     *
+     * @param sort ソート条件の配列（優先度の高い順）
+     * @param actionOptions アクションのオプション
+     */
+    setSort: (
+      sort: SortDescriptor<Columns>[],
+      actionOptions?: TableActionOptions
+    ) => {
+      updateQueryParams(
+        {
+          [queryKeys.sort]: encodeSort(sort),
+        },
+        false,
+        shouldReplace(options?.history, false, actionOptions)
+      );
+    },
+
+    /**
+     * ソートをトグル（クリック時の挙動）
+     *
+     * 昇順→降順→ソートなしの順に切り替え、他のカラムのソートは解除します。
+     *
+     * @param sortBy ソートするカラム
+     * @param actionOptions アクションのオプション
+     */
+    toggleSort: (
+      sortBy: SortableColumnKeys<Columns>,
+      actionOptions?: TableActionOptions
+    ) => {
+      const { sort } = getState();
+      const current = sort.find((item) => item.sortBy === sortBy);
+
+      if (!current) {
+        actions.setSort([{ sortBy, sortOrder: "asc" }], actionOptions);
+      } else if (current.sortOrder === "asc") {
+        actions.setSort([{ sortBy, sortOrder: "desc" }], actionOptions);
+      } else {
+        actions.setSort([], actionOptions);
+      }
+    },
+
+    /**
+     * 複数カラムのソートをトグル（Shift+クリック時の挙動）
+     *
+     * 他のカラムのソートを保ったまま、昇順→降順→ソートなしの順に切り替えます。
+     * 新しくソートするカラムは最も優先度の低いソート条件として追加されます。
+     *
+     * @param sortBy ソートするカラム
+     * @param actionOptions アクションのオプション
+     */
+    toggleMultiSort: (
+      sortBy: SortableColumnKeys<Columns>,
+      actionOptions?: TableActionOptions
+    ) => {
+      const { sort } = getState();
+      const current = sort.find((item) => item.sortBy === sortBy);
+
+      if (!current) {
+        actions.setSort([...sort, { sortBy, sortOrder: "asc" }], actionOptions);
+      } else if (current.sortOrder === "asc") {
+        actions.setSort(
+          sort.map((item) =>
+            item.sortBy === sortBy ? { sortBy, sortOrder: "desc" } : item
+          ),
+          actionOptions
+        );
+      } else {
+        actions.setSort(
+          sort.filter((item) => item.sortBy !== sortBy),
+          actionOptions
+        );
+      }
+    },
+
+    /**
+     * 列の表示/非表示を切り替え
+     *
+     * @param columnKey カラムキー
+     * @param isVisible 表示するかどうか
+     * @param actionOptions アクションのオプション
+     */
+    setColumnVisibility: (
+      columnKey: ExtractColumnKeys<Columns>,
+      isVisible: boolean,
+      actionOptions?: TableActionOptions
+    ) => {
+      const { columnVisibility } = getState();
+      let newVisibleColumns: ExtractColumnKeys<Columns>[];
+
+      if (isVisible) {
+        newVisibleColumns = [...columnVisibility, columnKey];
+      } else {
+        newVisibleColumns = columnVisibility.filter((col) => col !== columnKey);
+      }
+
+      // 少なくとも1つの列は表示されるようにする
+      if (newVisibleColumns.length === 0) return;
+
+      updateQueryParams(
+        {
+          [queryKeys.columnVisibility]: newVisibleColumns.join(","),
+        },
+        false,
+        shouldReplace(options?.history, false, actionOptions)
+      );
+    },
+
+    /**
+     * 列の順序を設定
+     *
+     * 指定しなかったカラムは、カラム定義の順に末尾に追加されます。
+     *
+     * @param columnOrder カラムキーを表示する順に並べた配列
+     * @param actionOptions アクションのオプション
+     */
+    setColumnOrder: (
+      columnOrder: ExtractColumnKeys<Columns>[],
+      actionOptions?: TableActionOptions
+    ) => {
+      updateQueryParams(
+        {
+          [queryKeys.columnOrder]: columnOrder.join(",") || null,
+        },
+        false,
+        shouldReplace(options?.history, false, actionOptions)
+      );
+    },
+
+    /**
+     * 列を移動
+     *
+     * @param columnKey カラムキー
+     * @param toIndex 移動先の位置（すべての列の中での位置）
+     * @param actionOptions アクションのオプション
+     */
+    moveColumn: (
+      columnKey: ExtractColumnKeys<Columns>,
+      toIndex: number,
+      actionOptions?: TableActionOptions
+    ) => {
+      const { columnOrder } = getState();
+      actions.setColumnOrder(
+        moveColumnKey(columnOrder, columnKey, toIndex),
+        actionOptions
+      );
+    },
+
+    /**
+     * 列を左右に固定
+     *
+     * 固定済みの列は指定した位置の最も内側に移動します。
+     *
+     * @param columnKey カラムキー
+     * @param side 固定する位置
+     * @param actionOptions アクションのオプション
+     */
+    pinColumn: (
+      columnKey: PinnableColumnKeys<Columns>,
+      side: ColumnPinSide,
+      actionOptions?: TableActionOptions
+    ) => {
+      const { pinning } = getState();
+      const unpinned = {
+        left: pinning.left.filter((key) => key !== columnKey),
+        right: pinning.right.filter((key) => key !== columnKey),
+      };
+      actions.setState(
+        { pinning: { ...unpinned, [side]: [...unpinned[side], columnKey] } },
+        actionOptions
+      );
+    },
+
+    /**
+     * 列の固定を解除
+     *
+     * @param columnKey カラムキー
+     * @param actionOptions アクションのオプション
+     */
+    unpinColumn: (
+      columnKey: PinnableColumnKeys<Columns>,
+      actionOptions?: TableActionOptions
+    ) => {
+      const { pinning } = getState();
+      actions.setState(
+        {
+          pinning: {
+            left: pinning.left.filter((key) => key !== columnKey),
+            right: pinning.right.filter((key) => key !== columnKey),
+          },
+        },
+        actionOptions
+      );
+    },
+
+    /**
+     * 列の幅を設定
+     *
+     * カラム定義の最小値・最大値の範囲に収めて保存します。
+     *
+     * @param columnKey カラムキー
+     * @param width 列の幅（px）
+     */
+    setColumnWidth: (columnKey: ExtractColumnKeys<Columns>, width: number) => {
+      const column = columnDefinitions.find((col) => col.key === columnKey);
+      if (!column || !Number.isFinite(width)) return;
+
+      saveColumnWidths({
+        ...getColumnWidths(),
+        [columnKey]: clampColumnWidth(column, width),
+      });
+    },
+
+    /**
+     * 列の幅をカラム定義の初期値に戻す
+     *
+     * @param columnKey カラムキー
+     */
+    resetColumnWidth: (columnKey: ExtractColumnKeys<Columns>) => {
+      const columnWidths: Partial<Record<string, number>> = getColumnWidths();
+      delete columnWidths[columnKey];
+      saveColumnWidths(columnWidths);
+    },
+
+    /**
+     * 行の選択を切り替える
+     *
+     * `range`を指定すると、直前に切り替えた行から指定した行までをまとめて切り替えます（Shift+クリック）。
+     *
+     * @param rowId 行のID
+     * @param pageRowIds 現在のページの行のID（表示順）
+     * @param selectOptions.range 範囲選択するかどうか
+     */
+    toggleRowSelection: (
+      rowId: string,
+      pageRowIds: readonly string[],
+      selectOptions?: { range?: boolean }
+    ) => {
+      selectionStore.setSelection(
+        toggleRowId(selectionStore.getSelection(), rowId, pageRowIds, {
+          mode: selectionMode,
+          anchorRowId: selectionStore.getAnchorRowId(),
+          range: selectOptions?.range,
+        }),
+        rowId
+      );
+    },
+
+    /**
+     * 現在のページのすべての行の選択を切り替える（複数選択のみ）
+     *
+     * @param pageRowIds 現在のページの行のID
+     */
+    togglePageSelection: (pageRowIds: readonly string[]) => {
+      if (selectionMode === "single") return;
+      selectionStore.setSelection(
+        togglePageRowIds(selectionStore.getSelection(), pageRowIds)
+      );
+    },
+
+    /**
+     * キーワード検索とフィルターに一致するすべての行を選択する（複数選択のみ）
+     */
+    selectAllMatching: () => {
+      if (selectionMode === "single") return;
+      selectionStore.setSelection({ rowIds: [], allMatching: true });
+    },
+
+    /**
+     * 行の選択をすべて解除する
+     */
+    clearSelection: () => {
+      selectionStore.setSelection(emptyRowSelection);
+    },
+
+    /**
+     * 行の展開を切り替える
+     *
+     * URLに保存する場合、展開した行をURLに書き込み、前に展開した行は展開したままにします。
+     *
+     * @param rowId 行のID
+     * @param actionOptions アクションのオプション
+     */
+    toggleRowExpansion: (rowId: string, actionOptions?: TableActionOptions) => {
+      const urlRowIds = getState().expandedRowIds;
+      const localRowIds = expansionStore.getExpandedRowIds();
+
+      if (localRowIds.includes(rowId) || urlRowIds.includes(rowId)) {
+        // URLの行を最後の行として並べ、閉じた行を除く
+        saveExpandedRowIds(
+          mergeExpandedRowIds(localRowIds, urlRowIds).filter(
+            (id) => id !== rowId
+          ),
+          actionOptions
+        );
+        return;
+      }
+
+      saveExpandedRowIds(
+        mergeExpandedRowIds(localRowIds, urlRowIds, [rowId]),
+        actionOptions
+      );
+    },
+
+    /**
+     * 現在のページのすべての行を展開する
+     *
+     * @param pageRowIds 現在のページの行のID
+     */
+    expandAll: (pageRowIds: readonly string[]) => {
+      // URLに保存した行は変更しない
+      expansionStore.setExpandedRowIds(
+        mergeExpandedRowIds(expansionStore.getExpandedRowIds(), pageRowIds)
+      );
+    },
+
+    /**
+     * すべての行を閉じる
+     *
+     * @param actionOptions アクションのオプション
+     */
+    collapseAll: (actionOptions?: TableActionOptions) => {
+      saveExpandedRowIds(emptyExpandedRowIds, actionOptions);
+    },
+
+    /**
+     * フィルターを設定
+     *
+     * フィルターが変わる場合は行の選択を解除します。
+     *
+     * @param columnKey カラムキー
+     * @param filterValue フィルター値
+     * @param actionOptions アクションのオプション
+     */
+    setFilter: <K extends FilterableColumnKeys<Columns>>(
+      columnKey: K,
+      filterValue: FilterTypeByColumnKey<Columns, K> | null,
+      actionOptions?: TableActionOptions
+    ): void => {
+      const filterParamKey = `${queryKeys.filterPrefix}${columnKey}`;
+      const replace = shouldReplace(options?.history, false, actionOptions);
+
+      if (filterValue === null) {
+        // フィルターを削除
+        clearSelectionOnFilterChange({ [filterParamKey]: null });
+        updateQueryParams({ [filterParamKey]: null }, true, replace);
+        return;
+      }
+
+      // カラム定義を取得
+      const columnDef = columnDefinitions.find((col) => col.key === columnKey);
+
+      if (columnDef?.filter) {
+        // フィルター値をエンコード
+        const encodedValue = columnDef.filter.encodeForUrl(
+          filterValue as FilterTypeByColumnKey<Columns, K>
+        );
+        clearSelectionOnFilterChange({ [filterParamKey]: encodedValue });
+        updateQueryParams({ [filterParamKey]: encodedValue }, true, replace);
+      }
+    },
+
+    /**
+     * ページネーションを設定
+     *
+     * @param page ページ番号
+     * @param actionOptions アクションのオプション
+     */
+    setPagination: (page: number, actionOptions?: TableActionOptions) => {
+      updateQueryParams(
+        {
+          [queryKeys.page]: page.toString(),
+        },
+        false,
+        shouldReplace(options?.history, true, actionOptions)
+      );
+    },
+
+    /**
+     * 次のページに進む（カーソルによるページネーション）
+     *
+     * @param cursor データソースが返した次のページのカーソル
+     * @param actionOptions アクションのオプション
+     */
+    nextPage: (cursor: string, actionOptions?: TableActionOptions) => {
+      const { pagination } = getState();
+      if (!isCursorPagination(pagination)) return;
+
+      const { cursor: currentCursor, cursorStack } = pagination;
+      updateQueryParams(
+        {
+          [queryKeys.cursor]: cursor,
+          [queryKeys.cursorStack]: encodeCursorStack(
+            currentCursor === null ? [] : [...cursorStack, currentCursor]
+          ),
+        },
+        false,
+        shouldReplace(options?.history, true, actionOptions)
+      );
+    },
+
+    /**
+     * 前のページに戻る（カーソルによるページネーション）
+     *
+     * @param actionOptions アクションのオプション
+     */
+    prevPage: (actionOptions?: TableActionOptions) => {
+      const { pagination } = getState();
+      if (!isCursorPagination(pagination)) return;
+
+      const { cursorStack } = pagination;
+      updateQueryParams(
+        {
+          [queryKeys.cursor]: cursorStack[cursorStack.length - 1] ?? null,
+          [queryKeys.cursorStack]: encodeCursorStack(cursorStack.slice(0, -1)),
+        },
+        false,
+        shouldReplace(options?.history, true, actionOptions)
+      );
+    },
+
+    /**
+     * ページサイズを設定
+     *
+     * 変更前のページの先頭の行が含まれるように、ページ番号を合わせて変更します。
+     * カーソルによるページネーションでは最初のページに戻ります。
+     *
+     * @param pageSize ページサイズ（pageSizeOptionsに含まれる値）
+     * @param actionOptions アクションのオプション
+     */
+    setPageSize: (pageSize: number, actionOptions?: TableActionOptions) => {
+      if (!getPageSizeOptions(options).includes(pageSize)) return;
+
+      const replace = shouldReplace(options?.history, false, actionOptions);
+
+      const { pagination } = getState();
+      if (isCursorPagination(pagination)) {
+        updateQueryParams(
+          { [queryKeys.pageSize]: pageSize.toString() },
+          true,
+          replace
+        );
+        return;
+      }
+
+      updateQueryParams(
+        {
+          [queryKeys.pageSize]: pageSize.toString(),
+          [queryKeys.page]: getPageForPageSize(pagination, pageSize).toString(),
+        },
+        false,
+        replace
+      );
+    },
+
+    /**
+     * テーブルの状態の一部をまとめて変更する
+     *
+     * 指定した状態のみを1回の書き込みで変更します。
+     * `filter`は指定したカラムのみを変更し（nullで削除）、それ以外のカラムのフィルターは保ちます。
+     * キーワード検索かフィルターを変更し、ページネーションを指定しない場合は最初のページに戻ります。
+     * キーワード検索かフィルターが変わり、`selection`を指定しない場合は行の選択を解除します。
+     * `columnWidths`と`selection`はそれぞれのストアに保存し、URLには書き込みません。
+     *
+     * @param partial 変更する状態
+     * @param actionOptions アクションのオプション
+     */
+    setState: (
+      partial: TableStatePatch<Columns>,
+      actionOptions?: TableActionOptions
+    ) => {
+      const updates: Record<string, string | null> = {};
+
+      if (partial.keywordSearch !== undefined) {
+        updates[queryKeys.keywordSearch] = partial.keywordSearch || null;
+      }
+      if (partial.sort !== undefined) {
+        updates[queryKeys.sort] = encodeSort(partial.sort);
+      }
+      if (partial.columnVisibility !== undefined) {
+        updates[queryKeys.columnVisibility] =
+          partial.columnVisibility.join(",") || null;
+      }
+      if (partial.columnOrder !== undefined) {
+        updates[queryKeys.columnOrder] = partial.columnOrder.join(",") || null;
+      }
+      if (partial.pinning !== undefined) {
+        updates[queryKeys.pinLeft] = partial.pinning.left.join(",") || null;
+        updates[queryKeys.pinRight] = partial.pinning.right.join(",") || null;
+      }
+      if (partial.filter !== undefined) {
+        Object.entries(partial.filter).forEach(([columnKey, filterValue]) => {
+          const filterDefinition = columnDefinitions.find(
+            (col) => col.key === columnKey
+          )?.filter;
+          if (!filterDefinition || filterValue === undefined) return;
+
+          updates[`${queryKeys.filterPrefix}${columnKey}`] =
+            filterValue === null
+              ? null
+              : filterDefinition.encodeForUrl(filterValue);
+        });
+      }
+
+      const { pagination } = partial;
+      if (pagination !== undefined) {
+        updates[queryKeys.pageSize] = pagination.pageSize.toString();
+        if (isCursorPagination(pagination)) {
+          updates[queryKeys.cursor] = pagination.cursor;
+          updates[queryKeys.cursorStack] = encodeCursorStack(
+            pagination.cursorStack
+          );
+        } else {
+          updates[queryKeys.page] = pagination.page.toString();
+        }
+      }
+
+      if (partial.columnWidths !== undefined) {
+        saveColumnWidths(partial.columnWidths);
+      }
+      if (partial.selection !== undefined) {
+        selectionStore.setSelection(partial.selection);
+      } else {
+        clearSelectionOnFilterChange(updates);
+      }
+      if (partial.expandedRowIds !== undefined) {
+        expansionStore.setExpandedRowIds(
+          persistExpandedRowInUrl
+            ? partial.expandedRowIds.slice(0, -1)
+            : partial.expandedRowIds
+        );
+        if (persistExpandedRowInUrl) {
+          updates[queryKeys.expandedRow] =
+            partial.expandedRowIds[partial.expandedRowIds.length - 1] ?? null;
+        }
+      }
+
+      const resetPage =
+        pagination === undefined &&
+        (partial.keywordSearch !== undefined || partial.filter !== undefined);
+
+      // URLに書き込む状態がない場合は履歴を追加しない
+      if (Object.keys(updates).length === 0 && !resetPage) return;
+
+      updateQueryParams(
+        updates,
+        resetPage,
+        shouldReplace(options?.history, pagination !== undefined, actionOptions)
+      );
+    },
+
+    /**
+     * すべての状態をデフォルトに戻す
+     *
+     * 列の幅もカラム定義の初期値に戻し、行の選択を解除して、すべての行を閉じます。
+     *
+     * @param actionOptions アクションのオプション
+     */
+    resetAll: (actionOptions?: TableActionOptions) => {
+      saveColumnWidths({});
+      selectionStore.setSelection(emptyRowSelection);
+      expansionStore.setExpandedRowIds(emptyExpandedRowIds);
+      updateQueryParams(
+        {
+          [queryKeys.keywordSearch]: null,
+          [queryKeys.sort]: null,
+          [queryKeys.columnVisibility]: null,
+          [queryKeys.columnOrder]: null,
+          [queryKeys.pinLeft]: null,
+          [queryKeys.pinRight]: null,
+          [queryKeys.expandedRow]: null,
+          [queryKeys.pageSize]: null,
+          ...getFilterResetUpdates(columnDefinitions, queryKeys),
+        },
+        true,
+        shouldReplace(options?.history, false, actionOptions)
+      );
+    },
+
+    /**
+     * すべてのフィルターを削除する
+     *
+     * フィルターがあった場合は行の選択を解除します。
+     *
+     * @param actionOptions アクションのオプション
+     */
+    resetFilters: (actionOptions?: TableActionOptions) => {
+      const updates = getFilterResetUpdates(columnDefinitions, queryKeys);
+      clearSelectionOnFilterChange(updates);
+      updateQueryParams(
+        updates,
+        true,
+        shouldReplace(options?.history, false, actionOptions)
+      );
+    },
+
+    /**
+     * カラムのフィルターを削除する
+     *
+     * @param columnKey カラムキー
+     * @param actionOptions アクションのオプション
+     */
+    clearFilter: (
+      columnKey: FilterableColumnKeys<Columns>,
+      actionOptions?: TableActionOptions
+    ) => {
+      actions.setFilter(columnKey, null, actionOptions);
+    },
+
+    /**
+     * 関数内の複数の変更を1回の書き込み（1回の画面遷移）にまとめる
+     *
+     * @param fn アクションを呼ぶ関数
+     */
+    batch,
+  };
+
+  return actions;
+};
+
+/**
+ * テーブルのアクション関数の型
+ */
+export type TableActions<Columns extends readonly ColumnDefinition[]> =
+  ReturnType<typeof createTableActions<Columns>>;
+
+/**
+ * ページネーションの方式に対応するアクション関数の型
+ *
+ * 方式に合わないページネーションのアクションは含まれず、
+ * `setState`のページネーションは方式に対応する型になります。
+ */
+export type TableActionsByMode<
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode
+> = Omit<
+  TableActions<Columns>,
+  | "setState"
+  | (Mode extends "cursor" ? "setPagination" : "nextPage" | "prevPage")
+> & {
+  setState: (
+    partial: TableStatePatch<Columns, Mode>,
+    actionOptions?: TableActionOptions
+  ) => void;
+};
@@ -0,0 +1,233 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  applyTablePreferences,
+  createLocalStoragePreferenceStore,
+  createMemoryPreferenceStore,
+  resolveTablePreferenceStore,
+} from "./tablePreferences";
+import { createQueryParamsWriter } from "./queryParamsWriter";
+import { createTableActions } from "./tableActions";
+import { createRowSelectionStore } from "./rowSelection";
+import { createRowExpansionStore } from "./rowExpansion";
+import { createMemoryStore } from "./tableStateStore";
+import { getQueryKeys } from "./parseTableState";
+import { ColumnDefinition, TableOptions, TablePreferences } from "./types";
+
+const columnDefinitions = [
+  {
+    key: "name",
+    renderHeadCell: () => "名前",
+    sortable: true,
+    initialVisibility: true,
+    filter: null,
+  },
+  {
+    key: "email",
+    renderHeadCell: () => "メールアドレス",
+    sortable: false,
+    initialVisibility: true,
+    filter: null,
+  },
+] as const satisfies ColumnDefinition[];
+
+const options: TableOptions = { pageSizeOptions: [10, 20, 50] };
+
+describe("applyTablePreferences", () => {
+  const apply = (params: string, preferences: TablePreferences) =>
+    applyTablePreferences(
+      new URLSearchParams(params),
+      preferences,
+      getQueryKeys(options),
+      columnDefinitions,
+      options
+    ).toString();
+
+  it("クエリパラメータにない状態を設定で補う", () => {
+    expect(
+      apply("", {
+        columnVisibility: ["name"],
+        columnOrder: ["email", "name"],
+        pageSize: 20,
+      })
+    ).toBe("table_columns=name&table_order=email%2Cname&table_page_size=20");
+  });
+
+  it("クエリパラメータに値がある場合はクエリパラメータを優先する", () => {
+    expect(
+      apply("table_columns=email&table_page_size=50", {
+        columnVisibility: ["name"],
+        pageSize: 20,
+      })
+    ).toBe("table_columns=email&table_page_size=50");
+  });
+
+  it("カラム定義やページサイズの選択肢に合わない設定は使用しない", () => {
+    expect(
+      apply("", { columnVisibility: ["name", "deleted"], pageSize: 30 })
+    ).toBe("table_columns=name");
+    expect(apply("", { columnVisibility: ["deleted"] })).toBe("");
+    expect(apply("", { columnOrder: ["email", "deleted", "email"] })).toBe(
+      "table_order=email"
+    );
+  });
+});
+
+describe("設定の保存", () => {
+  const setup = (params?: string, preferences?: TablePreferences) => {
+    const store = createMemoryStore(params);
+    const preferenceStore = createMemoryPreferenceStore(preferences);
+    const writer = createQueryParamsWriter(
+      columnDefinitions,
+      () => store,
+      preferenceStore,
+      options
+    );
+    const actions = createTableActions(
+      columnDefinitions,
+      writer,
+      {
+        columnWidthStore: preferenceStore,
+        selectionStore: createRowSelectionStore(),
+        expansionStore: createRowExpansionStore(),
+      },
+      options
+    );
+    return { store, preferenceStore, actions };
+  };
+
+  it("状態を変更すると列の表示/非表示と順序、ページサイズを保存する", () => {
+    const { preferenceStore, actions } = setup();
+
+    actions.setColumnVisibility("email", false);
+    actions.moveColumn("email", 0);
+    actions.setPageSize(20);
+
+    expect(preferenceStore.getPreferences()).toEqual({
+      columnVisibility: ["name"],
+      columnOrder: ["email", "name"],
+      pageSize: 20,
+    });
+  });
+
+  it("保存した設定をもとに次の状態を計算する", () => {
+    const { store, actions } = setup("", { columnVisibility: ["name"] });
+
+    actions.setColumnVisibility("email", true);
+
+    expect(store.getSearchParams().get("table_columns")).toBeNull();
+  });
+
+  it("リセットすると保存した設定も初期値に戻る", () => {
+    const { preferenceStore, actions } = setup("", {
+      columnVisibility: ["name"],
+      pageSize: 50,
+    });
+
+    actions.resetAll();
+
+    expect(preferenceStore.getPreferences()).toEqual({
+      columnVisibility: ["name", "email"],
+      columnOrder: ["name", "email"],
+      pageSize: 10,
+      columnWidths: {},
+    });
+  });
+
+  it("列の幅を設定とあわせて保存し、状態を変更しても保つ", () => {
+    const { store, preferenceStore, actions } = setup();
+
+    actions.setColumnWidth("name", 160);
+    actions.setPageSize(20);
+
+    expect(preferenceStore.getPreferences()).toEqual({
+      columnVisibility: ["name", "email"],
+      columnOrder: ["name", "email"],
+      pageSize: 20,
+      columnWidths: { name: 160 },
+    });
+    expect(store.getSearchParams().toString()).toBe("table_page_size=20");
+  });
+});
+
+describe("createLocalStoragePreferenceStore", () => {
+  const stubLocalStorage = (initial: Record<string, string> = {}) => {
+    const items = new Map(Object.entries(initial));
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+      },
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    });
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("書き込んだ設定を返し、変更がない場合は通知しない", () => {
+    stubLocalStorage();
+    const store = createLocalStoragePreferenceStore("preferences");
+    const onChange = vi.fn();
+    store.subscribe(onChange);
+
+    store.setPreferences({ pageSize: 20 });
+    store.setPreferences({ pageSize: 20 });
+
+    expect(store.getPreferences()).toEqual({ pageSize: 20 });
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("保存した値が壊れている場合は空の設定を返す", () => {
+    stubLocalStorage({ preferences: JSON.stringify({ pageSize: "20" }) });
+    expect(
+      createLocalStoragePreferenceStore("preferences").getPreferences()
+    ).toEqual({});
+  });
+});
+
+describe("resolveTablePreferenceStore", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("指定しない場合は設定を保存しない", () => {
+    expect(resolveTablePreferenceStore()).toBeNull();
+  });
+
+  it("ストアのインスタンスを指定するとそのまま使用する", () => {
+    const store = createMemoryPreferenceStore();
+    expect(resolveTablePreferenceStore({ preferences: store })).toBe(store);
+  });
+
+  it('"localStorage"を指定するとテーブル名ごとに保存する', () => {
+    const items = new Map<string, string>();
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+      },
+    });
+
+    resolveTablePreferenceStore({
+      tableName: "users",
+      preferences: "localStorage",
+    })?.setPreferences({ pageSize: 20 });
+    resolveTablePreferenceStore({
+      tableName: "orders",
+      preferences: "localStorage",
+    })?.setPreferences({ pageSize: 50 });
+
+    expect([...items.keys()]).toEqual([
+      "table-preferences:users_table",
+      "table-preferences:orders_table",
+    ]);
+  });
+
+  it('"localStorage"を指定してテーブル名がない場合は例外を投げる', () => {
+    expect(() =>
+      resolveTablePreferenceStore({ preferences: "localStorage" })
+    ).toThrow("tableName");
+  });
+});
@@ -0,0 +1,228 @@
+import * as v from "valibot";
+import {
+  ColumnDefinition,
+  PaginationMode,
+  TableOptions,
+  TablePreferences,
+  TablePreferenceStore,
+  TableState,
+} from "./types";
+import { getQueryKeyPrefix, getQueryKeys } from "./parseTableState";
+import { expandCompactParams } from "./compactParams";
+import { migrateTableParams } from "./migrateTableParams";
+import { getPageSizeOptions } from "./pagination";
+
+/**
+ * 保存した設定のスキーマ
+ */
+const TablePreferencesSchema = v.object({
+  columnVisibility: v.optional(v.array(v.string())),
+  columnOrder: v.optional(v.array(v.string())),
+  pageSize: v.optional(v.number()),
+  columnWidths: v.optional(v.record(v.string(), v.number())),
+});
+
+/**
+ * 設定がない場合の値（インスタンスを共有する）
+ */
+const emptyPreferences: TablePreferences = {};
+
+/**
+ * メモリ上に設定を保存するストアを作成する
+ *
+ * @param initial 初期の設定
+ * @returns メモリストア
+ */
+export const createMemoryPreferenceStore = (
+  initial: TablePreferences = emptyPreferences
+): TablePreferenceStore => {
+  let preferences = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getPreferences: () => preferences,
+    setPreferences: (newPreferences) => {
+      preferences = newPreferences;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+/**
+ * `localStorage`に設定を保存するストアを作成する
+ *
+ * 保存した値が壊れている場合は、設定が保存されていないものとして扱います。
+ * サーバー上では常に空の設定を返します。
+ *
+ * @param key `localStorage`のキー
+ * @returns localStorageストア
+ */
+export const createLocalStoragePreferenceStore = (
+  key: string
+): TablePreferenceStore => {
+  const listeners = new Set<() => void>();
+  let cache: { raw: string | null; preferences: TablePreferences } | null =
+    null;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  /**
+   * ほかのタブでの変更を通知する
+   */
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === key || event.key === null) notify();
+  };
+
+  return {
+    getPreferences: () => {
+      if (typeof window === "undefined") return emptyPreferences;
+
+      // 保存した値が変わったときだけ解析し直す
+      const raw = window.localStorage.getItem(key);
+      if (cache?.raw !== raw) {
+        cache = { raw, preferences: parseStoredPreferences(raw) };
+      }
+      return cache.preferences;
+    },
+    setPreferences: (preferences) => {
+      const raw = JSON.stringify(preferences);
+      // 変更がない場合は通知しない
+      if (window.localStorage.getItem(key) === raw) return;
+
+      window.localStorage.setItem(key, raw);
+      notify();
+    },
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      if (listeners.size === 1) {
+        window.addEventListener("storage", onStorage);
+      }
+      return () => {
+        listeners.delete(onChange);
+        if (listeners.size === 0) {
+          window.removeEventListener("storage", onStorage);
+        }
+      };
+    },
+  };
+};
+
+/**
+ * ストレージに保存した値から設定を解析する
+ *
+ * @param raw 保存した値
+ * @returns 設定（値がない場合や壊れている場合は空の設定）
+ */
+const parseStoredPreferences = (raw: string | null): TablePreferences => {
+  if (raw === null) return emptyPreferences;
+
+  try {
+    const result = v.safeParse(TablePreferencesSchema, JSON.parse(raw));
+    return result.success ? result.output : emptyPreferences;
+  } catch {
+    return emptyPreferences;
+  }
+};
+
+/**
+ * オプションの設定の保存先の指定から、ストアを取得する
+ *
+ * "localStorage"はテーブル名ごとに保存するため、`tableName`が必要です
+ * （ないと関係のないテーブルが同じキーの設定を共有してしまうため）。
+ *
+ * @param options テーブルのオプション
+ * @returns 設定のストア（保存しない場合はnull）
+ */
+export const resolveTablePreferenceStore = (
+  options?: TableOptions
+): TablePreferenceStore | null => {
+  const preferences = options?.preferences;
+  if (preferences === undefined) return null;
+  if (preferences !== "localStorage") return preferences;
+
+  if (!options?.tableName) {
+    throw new Error(
+      '設定を"localStorage"に保存する場合は`tableName`を指定してください。'
+    );
+  }
+  return createLocalStoragePreferenceStore(
+    `table-preferences:${getQueryKeyPrefix(options)}`
+  );
+};
+
+/**
+ * クエリパラメータにない状態を保存した設定で補う
+ *
+ * カラム定義やページサイズの選択肢に合わない設定は使用しません。
+ * 展開・マイグレーションしたクエリパラメータを返します。
+ *
+ * @param searchParams クエリパラメータ
+ * @param preferences 保存した設定
+ * @param queryKeys クエリパラメータのキー
+ * @param columnDefinitions カラム定義配列
+ * @param options テーブルのオプション
+ * @returns 設定で補ったクエリパラメータ
+ */
+export const applyTablePreferences = (
+  searchParams: URLSearchParams,
+  preferences: TablePreferences,
+  queryKeys: ReturnType<typeof getQueryKeys>,
+  columnDefinitions: readonly ColumnDefinition[],
+  options?: TableOptions
+): URLSearchParams => {
+  const params = new URLSearchParams(
+    migrateTableParams(
+      expandCompactParams(searchParams, queryKeys),
+      queryKeys,
+      options?.migrations
+    )
+  );
+
+  /**
+   * クエリパラメータにない列の設定を、カラム定義にあるカラムのみで補う
+   */
+  const setColumnKeys = (key: string, columnKeys?: string[]) => {
+    const knownKeys = columnKeys?.filter(
+      (columnKey, index) =>
+        columnDefinitions.some((col) => col.key === columnKey) &&
+        columnKeys.indexOf(columnKey) === index
+    );
+    if (knownKeys && knownKeys.length > 0 && !params.has(key)) {
+      params.set(key, knownKeys.join(","));
+    }
+  };
+
+  setColumnKeys(queryKeys.columnVisibility, preferences.columnVisibility);
+  setColumnKeys(queryKeys.columnOrder, preferences.columnOrder);
+
+  const { pageSize } = preferences;
+  if (
+    pageSize !== undefined &&
+    getPageSizeOptions(options).includes(pageSize) &&
+    !params.has(queryKeys.pageSize)
+  ) {
+    params.set(queryKeys.pageSize, String(pageSize));
+  }
+
+  return params;
+};
+
+/**
+ * テーブルの状態から保存する設定を取り出す
+ *
+ * @param state テーブルの状態
+ * @returns 保存する設定
+ */
+export const extractTablePreferences = (
+  state: TableState<readonly ColumnDefinition[], PaginationMode>
+): TablePreferences => ({
+  columnVisibility: [...state.columnVisibility],
+  columnOrder: [...state.columnOrder],
+  pageSize: state.pagination.pageSize,
+});
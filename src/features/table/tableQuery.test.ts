@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { buildTableQuery } from "./tableQuery";
+import { defineTableColumnFilter } from "./filterUtils";
+import { ColumnDefinition } from "./types";
+
+describe("buildTableQuery", () => {
+  const columnDefinitions = [
+    {
+      key: "name",
+      renderHeadCell: () => "名前",
+      sortable: true,
+      initialVisibility: true,
+      filter: null,
+    },
+    {
+      key: "age",
+      renderHeadCell: () => "年齢",
+      sortable: true,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<
+        { min?: number; max?: number },
+        { minAge: number | null; maxAge: number | null }
+      >({
+        encodeForUrl: undefined,
+        decodeFromUrl: undefined,
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+        toQuery: (filter) => ({
+          minAge: filter.min ?? null,
+          maxAge: filter.max ?? null,
+        }),
+      }),
+    },
+    {
+      key: "status",
+      renderHeadCell: () => "ステータス",
+      sortable: false,
+      initialVisibility: true,
+      filter: defineTableColumnFilter<"active" | "inactive">({
+        encodeForUrl: undefined,
+        decodeFromUrl: undefined,
+        renderPopupContent: () => null,
+        renderFilterChipContent: () => null,
+        initial: null,
+      }),
+    },
+  ] as const satisfies ColumnDefinition[];
+
+  it("ページ番号によるページネーションの状態からクエリを作成する", () => {
+    const query = buildTableQuery(columnDefinitions, {
+      keywordSearch: "田中",
+      sort: [{ sortBy: "age", sortOrder: "desc" }],
+      columnVisibility: ["name", "age", "status"],
+      columnOrder: ["name", "age", "status"],
+      pinning: { left: [], right: [] },
+      columnWidths: {},
+      selection: { rowIds: [], allMatching: false },
+      expandedRowIds: [],
+      pagination: { page: 3, pageSize: 20 },
+      filter: { age: { min: 20 }, status: "active" },
+    });
+
+    expect(query).toEqual({
+      keyword: "田中",
+      sort: [{ sortBy: "age", sortOrder: "desc" }],
+      filters: {
+        age: { minAge: 20, maxAge: null },
+        status: "active",
+      },
+      limit: 20,
+      offset: 40,
+    });
+  });
+
+  it("未設定のフィルターはtoQueryを呼ばずにnullにする", () => {
+    const query = buildTableQuery(columnDefinitions, {
+      keywordSearch: null,
+      sort: [],
+      columnVisibility: [],
+      columnOrder: [],
+      pinning: { left: [], right: [] },
+      columnWidths: {},
+      selection: { rowIds: [], allMatching: false },
+      expandedRowIds: [],
+      pagination: { page: 1, pageSize: 10 },
+      filter: { age: null, status: null },
+    });
+
+    expect(query.filters).toEqual({ age: null, status: null });
+    expect(query.offset).toBe(0);
+  });
+
+  it("カーソルによるページネーションの状態からクエリを作成する", () => {
+    const query = buildTableQuery<typeof columnDefinitions, "cursor">(
+      columnDefinitions,
+      {
+        keywordSearch: null,
+        sort: [],
+        columnVisibility: [],
+        columnOrder: [],
+        pinning: { left: [], right: [] },
+        columnWidths: {},
+        selection: { rowIds: [], allMatching: false },
+        expandedRowIds: [],
+        pagination: { cursor: "c2", cursorStack: ["c1"], pageSize: 10 },
+        filter: { age: null, status: null },
+      }
+    );
+
+    expect(query).toEqual({
+      keyword: null,
+      sort: [],
+      filters: { age: null, status: null },
+      limit: 10,
+      cursor: "c2",
+    });
+  });
+
+  it("クエリはJSONとしてシリアライズできる", () => {
+    const query = buildTableQuery(columnDefinitions, {
+      keywordSearch: "田中",
+      sort: [{ sortBy: "name", sortOrder: "asc" }],
+      columnVisibility: [],
+      columnOrder: [],
+      pinning: { left: [], right: [] },
+      columnWidths: {},
+      selection: { rowIds: [], allMatching: false },
+      expandedRowIds: [],
+      pagination: { page: 2, pageSize: 10 },
+      filter: { age: { max: 40 }, status: null },
+    });
+
+    expect(JSON.parse(JSON.stringify(query))).toEqual(query);
+  });
+});
@@ -0,0 +1,54 @@
+import { getPaginationInfo, isCursorPagination } from "./pagination";
+import {
+  ColumnDefinition,
+  FilterQueryMap,
+  PaginationMode,
+  PaginationQueryByMode,
+  TableQuery,
+  TableState,
+} from "./types";
+
+/**
+ * テーブルの状態からデータ取得用のクエリを作成する
+ *
+ * フィルターはカラム定義の`toQuery`で変換され、未設定のフィルターはnullになります。
+ *
+ * @param columnDefinitions カラム定義配列
+ * @param state テーブルの状態
+ * @returns データ取得用のクエリ
+ */
+export const buildTableQuery = <
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+>(
+  columnDefinitions: Columns,
+  state: TableState<Columns, Mode>
+): TableQuery<Columns, Mode> => {
+  const filters: Record<string, unknown> = {};
+  columnDefinitions.forEach((column) => {
+    if (column.filter === null) return;
+
+    const filter: unknown =
+      state.filter[column.key as keyof typeof state.filter];
+    filters[column.key] =
+      filter === null || filter === undefined
+        ? null
+        : column.filter.toQuery
+        ? column.filter.toQuery(filter)
+        : filter;
+  });
+
+  const pagination: TableState<Columns, PaginationMode>["pagination"] =
+    state.pagination;
+  const paginationQuery = isCursorPagination(pagination)
+    ? { cursor: pagination.cursor }
+    : { offset: getPaginationInfo(pagination).offset };
+
+  return {
+    keyword: state.keywordSearch,
+    sort: state.sort,
+    filters: filters as FilterQueryMap<Columns>,
+    limit: pagination.pageSize,
+    ...(paginationQuery as PaginationQueryByMode<Mode>),
+  };
+};
@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createHistoryStore,
+  createMemoryStore,
+  resolveTableStateStore,
+} from "./tableStateStore";
+
+describe("createMemoryStore", () => {
+  it("初期値のクエリパラメータを返す", () => {
+    const store = createMemoryStore("table_page=2");
+    expect(store.getSearchParams().get("table_page")).toBe("2");
+  });
+
+  it("変更がない限り同じインスタンスを返す", () => {
+    const store = createMemoryStore();
+    expect(store.getSearchParams()).toBe(store.getSearchParams());
+  });
+
+  it("書き込んだクエリパラメータを返し、購読者に通知する", () => {
+    const store = createMemoryStore();
+    const onChange = vi.fn();
+    store.subscribe(onChange);
+
+    store.setSearchParams(new URLSearchParams("table_keyword=foo"));
+
+    expect(store.getSearchParams().get("table_keyword")).toBe("foo");
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  it("購読を解除すると通知されない", () => {
+    const store = createMemoryStore();
+    const onChange = vi.fn();
+    const unsubscribe = store.subscribe(onChange);
+
+    unsubscribe();
+    store.setSearchParams(new URLSearchParams("table_keyword=foo"));
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it("書き込んだURLSearchParamsを後から変更しても影響を受けない", () => {
+    const store = createMemoryStore();
+    const params = new URLSearchParams("table_page=2");
+    store.setSearchParams(params);
+
+    params.set("table_page", "3");
+
+    expect(store.getSearchParams().get("table_page")).toBe("2");
+  });
+});
+
+describe("createHistoryStore", () => {
+  /**
+   * テスト用のwindowを作成する（pushState/replaceStateでlocationを更新する）
+   */
+  const stubWindow = (search: string, hash = "") => {
+    const location = { search, hash };
+    const setUrl = (url: string) => {
+      const { search, hash } = new URL(url, "http://localhost/users");
+      Object.assign(location, { search, hash });
+    };
+    const fakeWindow = {
+      location,
+      history: {
+        state: null,
+        pushState: vi.fn((_state: unknown, _unused: string, url: string) =>
+          setUrl(url)
+        ),
+        replaceState: vi.fn((_state: unknown, _unused: string, url: string) =>
+          setUrl(url)
+        ),
+      },
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    };
+    vi.stubGlobal("window", fakeWindow);
+    return fakeWindow;
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("URLのクエリパラメータを返し、変更がない限り同じインスタンスを返す", () => {
+    const fakeWindow = stubWindow("?table_page=2");
+    const store = createHistoryStore();
+
+    expect(store.getSearchParams().get("table_page")).toBe("2");
+    expect(store.getSearchParams()).toBe(store.getSearchParams());
+
+    fakeWindow.location.search = "?table_page=3";
+    expect(store.getSearchParams().get("table_page")).toBe("3");
+  });
+
+  it("URLのハッシュを保持して履歴を追加・置き換え、購読者に通知する", () => {
+    const fakeWindow = stubWindow("?table_page=2", "#users");
+    const store = createHistoryStore();
+    const onChange = vi.fn();
+    store.subscribe(onChange);
+
+    store.setSearchParams(new URLSearchParams("table_page=3"));
+    expect(fakeWindow.history.pushState).toHaveBeenCalledWith(
+      null,
+      "",
+      "?table_page=3#users"
+    );
+
+    store.setSearchParams(new URLSearchParams("table_page=4"), {
+      replace: true,
+    });
+    expect(fakeWindow.history.replaceState).toHaveBeenCalledWith(
+      null,
+      "",
+      "?table_page=4#users"
+    );
+    expect(store.getSearchParams().get("table_page")).toBe("4");
+    expect(onChange).toHaveBeenCalledTimes(2);
+  });
+
+  it("最初の購読でpopstateを購読し、最後の購読の解除で解除する", () => {
+    const fakeWindow = stubWindow("");
+    const store = createHistoryStore();
+
+    const unsubscribe1 = store.subscribe(() => {});
+    const unsubscribe2 = store.subscribe(() => {});
+    expect(fakeWindow.addEventListener).toHaveBeenCalledTimes(1);
+
+    unsubscribe1();
+    expect(fakeWindow.removeEventListener).not.toHaveBeenCalled();
+    unsubscribe2();
+    expect(fakeWindow.removeEventListener).toHaveBeenCalledWith(
+      "popstate",
+      fakeWindow.addEventListener.mock.calls[0][1]
+    );
+  });
+
+  it("ハイドレーションではURLのクエリパラメータがあっても空のクエリパラメータを返す", () => {
+    stubWindow("?table_page=2");
+    const store = createHistoryStore();
+
+    expect(store.getServerSearchParams?.().toString()).toBe("");
+  });
+
+  it("サーバー上では空のクエリパラメータを返す", () => {
+    const store = createHistoryStore();
+
+    expect(store.getSearchParams().toString()).toBe("");
+  });
+});
+
+describe("resolveTableStateStore", () => {
+  it("memoryを指定するとテーブルごとに同じストアを返す", () => {
+    const useStore = resolveTableStateStore("memory", null);
+    expect(useStore()).toBe(useStore());
+  });
+
+  it("memoryを指定したテーブル同士は状態を共有しない", () => {
+    const useStoreA = resolveTableStateStore("memory", null);
+    const useStoreB = resolveTableStateStore("memory", null);
+
+    useStoreA().setSearchParams(new URLSearchParams("table_page=2"));
+
+    expect(useStoreB().getSearchParams().get("table_page")).toBeNull();
+  });
+
+  it("ストアのインスタンスを指定するとそのまま使用する", () => {
+    const store = createMemoryStore();
+    const useStore = resolveTableStateStore(store, null);
+    expect(useStore()).toBe(store);
+  });
+
+  it("URLストアがある場合は指定がなければURLストアを使用する", () => {
+    const urlStore = createMemoryStore();
+    const useUrlStore = () => urlStore;
+
+    expect(resolveTableStateStore(undefined, useUrlStore)).toBe(useUrlStore);
+    expect(resolveTableStateStore("url", useUrlStore)).toBe(useUrlStore);
+  });
+
+  it("URLストアがない場合は指定がなければhistoryストアを使用し、urlを指定すると例外を投げる", () => {
+    const useStore = resolveTableStateStore(undefined, null);
+    expect(useStore()).toBe(useStore());
+
+    expect(() => resolveTableStateStore("url", null)).toThrow(
+      /Next.jsのエントリーポイント/
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import { TableOptions, TableStateStore } from "./types";
+
+/**
+ * メモリ上に状態を保存するストアを作成する
+ *
+ * Storybookやテスト、モーダル内のテーブルなどURLを汚したくない場合に使用します。
+ * 履歴を持たないため、書き込み時の`replace`は無視されます。
+ *
+ * @param initial 初期のクエリパラメータ
+ * @returns メモリストア
+ */
+export const createMemoryStore = (
+  initial?: string | URLSearchParams
+): TableStateStore => {
+  let searchParams = new URLSearchParams(initial);
+  const listeners = new Set<() => void>();
+
+  return {
+    getSearchParams: () => searchParams,
+    setSearchParams: (newParams) => {
+      searchParams = new URLSearchParams(newParams);
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+/**
+ * `window.history`を直接操作してURLに状態を保存するストアを作成する
+ *
+ * Next.js以外のReactアプリケーションで使用します。
+ * サーバー上とハイドレーションでは常に空のクエリパラメータを返します。
+ * 書き込み時はURLのハッシュを保持します。
+ *
+ * @returns historyストア
+ */
+export const createHistoryStore = (): TableStateStore => {
+  const emptySearchParams = new URLSearchParams();
+  const listeners = new Set<() => void>();
+  let cache: { search: string; searchParams: URLSearchParams } | null = null;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    getSearchParams: () => {
+      if (typeof window === "undefined") return emptySearchParams;
+
+      // location.searchが変わったときだけインスタンスを作り直す
+      const search = window.location.search;
+      if (cache?.search !== search) {
+        cache = { search, searchParams: new URLSearchParams(search) };
+      }
+      return cache.searchParams;
+    },
+    // サーバー上ではURLを読めないため、ハイドレーションも空のクエリパラメータで行う
+    getServerSearchParams: () => emptySearchParams,
+    setSearchParams: (newParams, options) => {
+      const url = `?${newParams.toString()}${window.location.hash}`;
+      if (options?.replace) {
+        window.history.replaceState(window.history.state, "", url);
+      } else {
+        window.history.pushState(window.history.state, "", url);
+      }
+      notify();
+    },
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      // ブラウザの戻る・進むでも通知する
+      if (listeners.size === 1) {
+        window.addEventListener("popstate", notify);
+      }
+      return () => {
+        listeners.delete(onChange);
+        if (listeners.size === 0) {
+          window.removeEventListener("popstate", notify);
+        }
+      };
+    },
+  };
+};
+
+/**
+ * オプションのストア指定から、ストアを取得するフックを作成する
+ *
+ * 組み込みのmemory/historyストアはテーブルごとに1つだけ作成されます。
+ * URLストアはNext.jsに依存するため、エントリーポイントから受け取ります。
+ *
+ * @param store ストアの指定（省略時はURLストアがある場合は"url"、ない場合は"history"）
+ * @param useUrlStore URLストアを取得するフック（Next.jsを使用しない場合はnull）
+ * @returns ストアを取得するフック
+ */
+export const resolveTableStateStore = (
+  store: TableOptions["store"],
+  useUrlStore: (() => TableStateStore) | null
+): (() => TableStateStore) => {
+  const resolvedOption = store ?? (useUrlStore ? "url" : "history");
+  if (resolvedOption === "url") {
+    if (!useUrlStore) {
+      throw new Error(
+        '"url"ストアはNext.jsのエントリーポイント（createTable）でのみ使用できます。' +
+          '"history"ストアを使用してください。'
+      );
+    }
+    return useUrlStore;
+  }
+
+  const resolvedStore =
+    resolvedOption === "memory"
+      ? createMemoryStore()
+      : resolvedOption === "history"
+      ? createHistoryStore()
+      : resolvedOption;
+
+  return () => resolvedStore;
+};
@@ -1,4 +1,5 @@
 import { ReactNode } from "react";
+import type { ParsedUrlQuery } from "querystring";
 import * as v from "valibot";
 
 /**
@@ -7,7 +8,11 @@ import * as v from "valibot";
 
 export type ColumnFilterDefinition<
   // eslint-disable-next-line @typescript-eslint/no-explicit-any -- unknownにするとうまく型推論できない
-  FilterCondition = any
+  FilterCondition = any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- unknownにするとうまく型推論できない
+  Query = any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- unknownにすると行の型を指定したカラム定義を受け取れない
+  Row = any
 > = {
   /**
    * フィルターポップアップのコンテンツをレンダリングする関数
@@ -35,18 +40,69 @@ export type ColumnFilterDefinition<
    * URLクエリパラメータの文字列からフィルター値をデコードする関数
    */
   decodeFromUrl: (encoded: string) => FilterCondition | null;
+  /**
+   * フィルター値をデータ取得用のクエリに変換する関数（省略時はフィルター値をそのまま使用）
+   */
+  toQuery?: (filter: v.NonNullable<FilterCondition>) => Query;
+  /**
+   * 行がフィルター条件に一致するかを判定する関数（applyTableStateで使用）
+   */
+  predicate?: (row: Row, filter: v.NonNullable<FilterCondition>) => boolean;
 };
 
+/**
+ * 行の型を指定したカラムフィルターの定義型（フィルター値とクエリの型は問わない）
+ *
+ * `createTable<Row>()`のカラム定義で、フィルターの`predicate`の行の型を推論するために使用します。
+ */
+export type RowColumnFilterDefinition<Row> = ColumnFilterDefinition<
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- フィルター値の型は問わない
+  any,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- クエリの型は問わない
+  any,
+  Row
+>;
+
 // カラム定義型
 export type ColumnDefinition<
   ColumnKey extends string = string,
-  TFilterDefinition extends ColumnFilterDefinition | null = ColumnFilterDefinition | null
+  TFilterDefinition extends ColumnFilterDefinition | null = ColumnFilterDefinition | null,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- unknownにすると行の型を指定したカラム定義を受け取れない
+  Row = any
 > = {
   key: ColumnKey;
   filter: TFilterDefinition;
   sortable: boolean;
   initialVisibility: boolean;
   renderHeadCell: () => ReactNode;
+  /**
+   * 行データからセルの内容をレンダリングする関数
+   */
+  renderCell?: (row: Row) => ReactNode;
+  /**
+   * ソート用に2つの行を比較する関数（applyTableStateで使用）
+   */
+  compare?: (a: Row, b: Row) => number;
+  /**
+   * キーワード検索の対象となる文字列を行から取得する関数（applyTableStateで使用）
+   */
+  getSearchText?: (row: Row) => string;
+  /**
+   * 列を左右に固定できるかどうか（デフォルトはfalse）
+   */
+  pinnable?: boolean;
+  /**
+   * 列の幅の初期値（px、省略時は内容に合わせる）
+   */
+  defaultWidth?: number;
+  /**
+   * 列の幅の最小値（px）
+   */
+  minWidth?: number;
+  /**
+   * 列の幅の最大値（px）
+   */
+  maxWidth?: number;
 };
 
 /**
@@ -93,6 +149,21 @@ export type SortableColumn<Column> = Column extends ColumnDefinition<string> & {
 export type SortableColumnKeys<Columns extends readonly ColumnDefinition[]> =
   SortableColumn<ArrayElementUnion<Columns>>["key"];
 
+/**
+ * 固定できるカラムを抽出する型
+ */
+export type PinnableColumn<Column> = Column extends ColumnDefinition<string> & {
+  pinnable: true;
+}
+  ? Column
+  : never;
+
+/**
+ * 固定できるカラムからカラムキーのみを抽出する型
+ */
+export type PinnableColumnKeys<Columns extends readonly ColumnDefinition[]> =
+  PinnableColumn<ArrayElementUnion<Columns>>["key"];
+
 /**
  * カラム定義からフィルター条件の型を抽出する型
  */
@@ -122,25 +193,526 @@ export type FilterTypeMap<Columns extends readonly ColumnDefinition[]> = {
   [Key in FilterableColumnKeys<Columns>]: FilterTypeByColumnKey<Columns, Key>;
 };
 
+/**
+ * カラム定義からフィルターのクエリの型を抽出する型
+ */
+export type ExtractFilterQuery<Column> = Column extends ColumnDefinition<
+  string,
+  infer FilterDefinition
+>
+  ? // eslint-disable-next-line @typescript-eslint/no-explicit-any -- フィルター条件の型は問わない
+    FilterDefinition extends ColumnFilterDefinition<any, infer Query>
+    ? Query | null
+    : never
+  : never;
+
+/**
+ * カラム定義配列からフィルターのクエリ型マップを構築するユーティリティ型
+ */
+export type FilterQueryMap<Columns extends readonly ColumnDefinition[]> = {
+  [Key in FilterableColumnKeys<Columns>]: ExtractFilterQuery<
+    Extract<ArrayElementUnion<Columns>, { key: Key }>
+  >;
+};
+
+/**
+ * テーブルの状態から導出したデータ取得用のクエリ型
+ *
+ * シリアライズ可能な値のみを含むため、APIルートのリクエストにもそのまま使用できます。
+ */
+export type TableQuery<
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+> = {
+  keyword: string | null;
+  sort: SortDescriptor<Columns>[];
+  filters: FilterQueryMap<Columns>;
+  limit: number;
+} & PaginationQueryByMode<Mode>;
+
+/**
+ * ページネーションの方式に対応するデータ取得用のクエリ型
+ */
+export type PaginationQueryByMode<Mode extends PaginationMode> =
+  Mode extends "cursor" ? { cursor: string | null } : { offset: number };
+
+/**
+ * applyTableStateの結果の型
+ */
+export type TableDataResult<Row, Mode extends PaginationMode = "offset"> = {
+  /**
+   * 現在のページの行
+   */
+  rows: Row[];
+  /**
+   * キーワード検索とフィルターに一致する全件数
+   */
+  totalCount: number;
+} & (Mode extends "cursor"
+  ? {
+      /**
+       * 次のページのカーソル（次のページがない場合はnull）
+       */
+      nextCursor: string | null;
+    }
+  : unknown);
+
 // テーブルの状態型
-export type TableState<Columns extends readonly ColumnDefinition[]> = {
+export type TableState<
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+> = {
   keywordSearch: string | null;
-  sort: {
-    sortBy: SortableColumnKeys<Columns> | null;
-    sortOrder: SortOrder | null;
-  };
+  sort: SortDescriptor<Columns>[];
   columnVisibility: ExtractColumnKeys<Columns>[];
-  pagination: number;
+  columnOrder: ExtractColumnKeys<Columns>[];
+  pinning: ColumnPinning<Columns>;
+  columnWidths: ColumnWidths<Columns>;
+  selection: RowSelection;
+  /**
+   * 展開している行のID
+   */
+  expandedRowIds: string[];
+  pagination: PaginationByMode<Mode>;
   filter: FilterTypeMap<Columns>;
 };
 
+/**
+ * 列を固定する位置
+ */
+export type ColumnPinSide = "left" | "right";
+
+/**
+ * 固定する列の型（それぞれ外側から順に並ぶ）
+ */
+export type ColumnPinning<Columns extends readonly ColumnDefinition[]> = Record<
+  ColumnPinSide,
+  PinnableColumnKeys<Columns>[]
+>;
+
+/**
+ * ユーザーが変更した列の幅の型（px、URLには保存しない）
+ */
+export type ColumnWidths<Columns extends readonly ColumnDefinition[]> = Partial<
+  Record<ExtractColumnKeys<Columns>, number>
+>;
+
+/**
+ * 行の選択の方式
+ *
+ * - `single`: 1行のみ選択できる
+ * - `multi`: 複数の行を選択できる
+ */
+export type RowSelectionMode = "single" | "multi";
+
+/**
+ * 行の選択の状態型（URLには保存しない）
+ */
+export type RowSelection = {
+  /**
+   * 選択した行のID（ほかのページの行を含む）
+   */
+  rowIds: string[];
+  /**
+   * キーワード検索とフィルターに一致するすべての行を選択しているかどうか
+   */
+  allMatching: boolean;
+};
+
+/**
+ * 一括操作の対象の型
+ *
+ * キーワード検索とフィルターに一致するすべての行を選択している場合は、
+ * 行のIDの代わりに現在のキーワード検索とフィルターを受け取ります。
+ */
+export type TableBulkActionTarget<Columns extends readonly ColumnDefinition[]> =
+
+    | {
+        allMatching: false;
+        rowIds: string[];
+      }
+    | {
+        allMatching: true;
+        keywordSearch: string | null;
+        filter: FilterTypeMap<Columns>;
+      };
+
+/**
+ * テーブルの状態の一部を変更するときの型
+ *
+ * `filter`は変更するカラムのみを指定します。
+ */
+export type TableStatePatch<
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = PaginationMode
+> = Partial<Omit<TableState<Columns, Mode>, "filter">> & {
+  filter?: Partial<FilterTypeMap<Columns>>;
+};
+
+/**
+ * ページネーションの方式
+ *
+ * - `offset`: ページ番号でページを指定する
+ * - `cursor`: データソースが返す不透明なカーソルでページを指定する
+ */
+export type PaginationMode = "offset" | "cursor";
+
+/**
+ * ページネーションの方式に対応するページネーションの状態型
+ */
+export type PaginationByMode<Mode extends PaginationMode> =
+  Mode extends "cursor" ? CursorPagination : OffsetPagination;
+
+/**
+ * ページネーションの状態型から方式を取得する型
+ */
+export type PaginationModeOf<Pagination> = Pagination extends CursorPagination
+  ? "cursor"
+  : "offset";
+
+/**
+ * ページ番号によるページネーションの状態型
+ */
+export type OffsetPagination = {
+  /**
+   * ページ番号（1始まり）
+   */
+  page: number;
+  /**
+   * 1ページあたりの件数
+   */
+  pageSize: number;
+};
+
+/**
+ * カーソルによるページネーションの状態型
+ */
+export type CursorPagination = {
+  /**
+   * 現在のページのカーソル（最初のページはnull）
+   */
+  cursor: string | null;
+  /**
+   * 前のページに戻るためのカーソルのスタック（最初のページを除く）
+   */
+  cursorStack: string[];
+  /**
+   * 1ページあたりの件数
+   */
+  pageSize: number;
+};
+
 /**
  * ソート順序の型
  */
 export type SortOrder = "asc" | "desc";
 
+/**
+ * ソート条件の型（TableState.sortは優先度の高い順に並ぶ）
+ */
+export type SortDescriptor<Columns extends readonly ColumnDefinition[]> = {
+  sortBy: SortableColumnKeys<Columns>;
+  sortOrder: SortOrder;
+};
+
+/**
+ * クエリパラメータの問題の種類
+ *
+ * - `unknownColumn`: 存在しないカラムを指定している
+ * - `notSortable`: ソート可能でないカラムでソートしている
+ * - `invalidSortOrder`: ソート順が不正
+ * - `duplicateSort`: 同じカラムで複数回ソートしている
+ * - `duplicateColumn`: 列の順序や固定する列に同じカラムを複数回指定している
+ * - `notPinnable`: 固定できないカラムを固定している
+ * - `notFilterable`: フィルターのないカラムでフィルターしている
+ * - `invalidPage`: ページ番号が不正
+ * - `invalidPageSize`: ページサイズが選択肢にない
+ * - `invalidCursor`: カーソルのスタックがデコードできない
+ * - `invalidFilter`: フィルター値がデコードできない
+ */
+export type TableStateIssueReason =
+  | "unknownColumn"
+  | "notSortable"
+  | "invalidSortOrder"
+  | "duplicateSort"
+  | "duplicateColumn"
+  | "notPinnable"
+  | "notFilterable"
+  | "invalidPage"
+  | "invalidPageSize"
+  | "invalidCursor"
+  | "invalidFilter";
+
+/**
+ * テーブルの状態の解析中に見つかったクエリパラメータの問題
+ */
+export type TableStateIssue = {
+  /**
+   * クエリパラメータのキー
+   */
+  key: string;
+  /**
+   * クエリパラメータの値
+   */
+  value: string;
+  /**
+   * 問題の種類
+   */
+  reason: TableStateIssueReason;
+  /**
+   * 問題のあるカラムキー
+   */
+  column?: string;
+};
+
+/**
+ * テーブルの状態の解析結果の診断情報
+ */
+export type TableDiagnostics = {
+  /**
+   * 無視されたクエリパラメータの問題の一覧
+   */
+  issues: TableStateIssue[];
+};
+
+/**
+ * テーブルの状態（クエリパラメータ）を読み書きするストアの型
+ */
+export type TableStateStore = {
+  /**
+   * 現在のクエリパラメータを取得する（変更がない限り同じインスタンスを返すこと）
+   */
+  getSearchParams: () => URLSearchParams;
+  /**
+   * サーバー上のレンダリングとハイドレーションで使用するクエリパラメータを取得する
+   *
+   * 省略した場合は`getSearchParams`を使用します。
+   * サーバー上でクエリパラメータを読めないストアは、ハイドレーションの不一致を避けるため空のクエリパラメータを返します。
+   */
+  getServerSearchParams?: () => URLSearchParams;
+  /**
+   * 現在のクエリパラメータを読み込めたかどうかを取得する
+   *
+   * 省略した場合は常に読み込めたものとします。
+   * 読み込むまではデフォルトのビューを適用しません（共有されたリンクの状態を上書きしないため）。
+   */
+  isReady?: () => boolean;
+  /**
+   * クエリパラメータを書き込む
+   *
+   * `options.replace`がtrueの場合は、履歴を追加せずに現在の履歴を置き換えます。
+   */
+  setSearchParams: (
+    searchParams: URLSearchParams,
+    options?: { replace?: boolean }
+  ) => void;
+  /**
+   * クエリパラメータの変更を購読する
+   *
+   * @returns 購読を解除する関数
+   */
+  subscribe: (onChange: () => void) => () => void;
+};
+
+/**
+ * 保存したビュー（ストレージに保存する形式）
+ */
+export type StoredTableView = {
+  /**
+   * ビューのID
+   */
+  id: string;
+  /**
+   * ビューの名前
+   */
+  name: string;
+  /**
+   * テーブルの状態のクエリパラメータ
+   */
+  params: string;
+  /**
+   * デフォルトのビューかどうか
+   */
+  isDefault: boolean;
+};
+
+/**
+ * 保存したビューを読み書きするストレージの型
+ */
+export type TableViewStorage = {
+  /**
+   * 保存したビューを取得する（変更がない限り同じインスタンスを返すこと）
+   */
+  getViews: () => readonly StoredTableView[];
+  /**
+   * 保存したビューを書き込む
+   */
+  setViews: (views: readonly StoredTableView[]) => void;
+  /**
+   * 保存したビューの変更を購読する
+   *
+   * @returns 購読を解除する関数
+   */
+  subscribe: (onChange: () => void) => () => void;
+};
+
+/**
+ * 読み込んだビュー
+ *
+ * カラム定義の変更などで状態の一部を解析できない場合は`isValid`がfalseになり、
+ * `state`には解析できた状態（解析できない部分はデフォルト値）が入ります。
+ */
+export type SavedTableView<
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+> = StoredTableView & {
+  state: TableState<Columns, Mode>;
+  issues: TableStateIssue[];
+  isValid: boolean;
+};
+
+/**
+ * セッションをまたいで保存するユーザーの設定
+ */
+export type TablePreferences = {
+  /**
+   * 表示する列
+   */
+  columnVisibility?: string[];
+  /**
+   * 列の順序
+   */
+  columnOrder?: string[];
+  /**
+   * ページサイズ
+   */
+  pageSize?: number;
+  /**
+   * 列の幅
+   */
+  columnWidths?: Partial<Record<string, number>>;
+};
+
+/**
+ * ユーザーの設定を読み書きするストアの型
+ */
+export type TablePreferenceStore = {
+  /**
+   * 保存した設定を取得する（変更がない限り同じインスタンスを返すこと）
+   */
+  getPreferences: () => TablePreferences;
+  /**
+   * 設定を書き込む
+   */
+  setPreferences: (preferences: TablePreferences) => void;
+  /**
+   * 設定の変更を購読する
+   *
+   * @returns 購読を解除する関数
+   */
+  subscribe: (onChange: () => void) => () => void;
+};
+
+/**
+ * サーバー上でテーブルの状態を解析するときの入力の型
+ *
+ * - `URLSearchParams`
+ * - Next.jsの`ctx.query`などの`ParsedUrlQuery`
+ * - `NextApiRequest`や`GetServerSidePropsContext`などの`query`を持つオブジェクト
+ * - `IncomingMessage`や`Request`などの`url`を持つリクエスト
+ */
+export type TableStateRequestSource =
+  | URLSearchParams
+  | ParsedUrlQuery
+  | { query: ParsedUrlQuery }
+  | { url?: string; headers: unknown };
+
+/**
+ * 組み込みストアの種類
+ *
+ * - `url`: Next.jsのルーターを通してURLに保存する（Next.jsのエントリーポイントの`createTable`のみ）
+ * - `memory`: メモリ上に保存する（テーブルごとに独立）
+ * - `history`: `window.history`を直接操作してURLに保存する
+ */
+export type BuiltinTableStateStore = "url" | "memory" | "history";
+
+/**
+ * クエリパラメータへの状態の書き込み方式
+ *
+ * - `params`: 状態ごとに別のクエリパラメータに書き込む（例: `table_keyword=...&table_sort=...`）
+ * - `compact`: 状態全体をキーを短縮した形式で1つのクエリパラメータに書き込む（例: `table=k*.keyword*-p*.2`）
+ */
+export type TableStateSerializer = "params" | "compact";
+
+/**
+ * 状態を変更したときの履歴の扱い
+ *
+ * - `push`: 常に履歴を追加する
+ * - `replace`: 常に現在の履歴を置き換える
+ * - `navigational`: ページの移動のみ履歴を追加し、それ以外は現在の履歴を置き換える
+ */
+export type TableHistoryPolicy = "push" | "replace" | "navigational";
+
+/**
+ * アクションごとのオプション
+ */
+export type TableActionOptions = {
+  /**
+   * 履歴を追加するかどうか（テーブルの`history`より優先される）
+   */
+  history?: "push" | "replace";
+};
+
+/**
+ * 状態のクエリパラメータを1つ新しいバージョンに変換する関数
+ *
+ * プレフィックスを除いたキー（例: `sort`、`filter_age`）と値の組を受け取り、
+ * 変換後の組を返します。カラムキーの変更やフィルターのエンコード形式の変更に使用します。
+ */
+export type TableStateMigration = (
+  params: Record<string, string>
+) => Record<string, string>;
+
+/**
+ * 行の選択のオプション型
+ */
+export type TableSelectionOptions<Row> = {
+  /**
+   * 行を一意に識別するIDを取得する関数
+   */
+  getRowId: (row: Row) => string;
+  /**
+   * 行の選択の方式（デフォルトは"multi"）
+   */
+  mode?: RowSelectionMode;
+};
+
+/**
+ * 行の展開のオプション型
+ */
+export type TableExpansionOptions<Row> = {
+  /**
+   * 行を一意に識別するIDを取得する関数
+   */
+  getRowId: (row: Row) => string;
+  /**
+   * 展開した行の下に表示する詳細をレンダリングする関数
+   */
+  renderExpandedRow: (row: Row) => ReactNode;
+  /**
+   * 最後に展開した行のIDをURLのクエリパラメータに保存するかどうか（デフォルトはfalse）
+   *
+   * 保存すると、詳細を開いた状態をリンクで共有できます。
+   */
+  persistInUrl?: boolean;
+};
+
 // テーブルのオプション型
-export type TableOptions = {
+export type TableOptions<
+  Mode extends PaginationMode = PaginationMode,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any -- unknownにすると行の型を指定したオプションを受け取れない
+  Row = any
+> = {
   /**
    * テーブル名（設定時、クエリパラメータに${tableName}_プレフィックスが付きます）
    */
@@ -149,4 +721,74 @@ export type TableOptions = {
    * クエリパラメータのプレフィックス（デフォルトは"table"）
    */
   queryParamPrefix?: string;
+  /**
+   * テーブルの状態を保存するストア（デフォルトは"url"、Next.jsを使用しない`createReactTable`では"history"）
+   */
+  store?: BuiltinTableStateStore | TableStateStore;
+  /**
+   * 選択できるページサイズ（先頭がデフォルト、デフォルトは[10]）
+   */
+  pageSizeOptions?: readonly number[];
+  /**
+   * ページネーションの方式（デフォルトは"offset"）
+   */
+  paginationMode?: Mode;
+  /**
+   * クエリパラメータへの状態の書き込み方式（デフォルトは"params"）
+   *
+   * 読み込み時はどちらの方式でも解析されます。
+   */
+  serializer?: TableStateSerializer;
+  /**
+   * 古いバージョンの状態を変換するマイグレーション（バージョンnからn+1への変換をn番目に指定）
+   *
+   * 状態のバージョン（マイグレーションの数）はクエリパラメータに書き込まれます。
+   * バージョンのないクエリパラメータはバージョン0として扱われます。
+   */
+  migrations?: readonly TableStateMigration[];
+  /**
+   * URLのクエリパラメータに問題があった場合に呼ばれる関数
+   *
+   * 壊れたリンクの報告などに使用します。`canonicalize`を呼ぶと、
+   * 問題のあるクエリパラメータを正規化した値で現在の履歴を置き換えます。
+   */
+  onInvalidState?: (
+    issues: TableStateIssue[],
+    helpers: { canonicalize: () => void }
+  ) => void;
+  /**
+   * 状態を変更したときに履歴を追加するかどうか（デフォルトは"push"）
+   */
+  history?: TableHistoryPolicy;
+  /**
+   * 状態の書き込みを遅らせる時間（ミリ秒）
+   *
+   * 指定した時間内の連続した更新は1回の書き込みにまとめられます。
+   */
+  debounceMs?: number;
+  /**
+   * 保存したビューを読み書きするストレージ（デフォルトはテーブルごとのメモリ）
+   */
+  viewStorage?: TableViewStorage;
+  /**
+   * ユーザーの設定（列の表示/非表示と順序、ページサイズ、列の幅）を保存するストア（デフォルトは保存しない）
+   *
+   * "localStorage"を指定すると、テーブル名ごとに`localStorage`に保存します（`tableName`の指定が必要です）。
+   * URLのクエリパラメータに値がある場合はURLの値を優先し、ない場合に保存した設定を使用します。
+   * 設定は状態を変更したときに保存されます。
+   * 列の幅はURLに保存しないため、指定しない場合はページを離れるまでメモリ上に保持します。
+   */
+  preferences?: "localStorage" | TablePreferenceStore;
+  /**
+   * 行の選択（指定すると、テーブルに行を選択するチェックボックスの列を表示します）
+   *
+   * 選択した行はURLに保存せず、ページを離れるまでメモリ上に保持します。
+   */
+  selection?: TableSelectionOptions<Row>;
+  /**
+   * 行の展開（指定すると、テーブルに行を展開するボタンの列を表示します）
+   *
+   * 展開した行は`persistInUrl`を指定した場合を除き、ページを離れるまでメモリ上に保持します。
+   */
+  expansion?: TableExpansionOptions<Row>;
 };
@@ -0,0 +1,43 @@
+import { useSearchParams, useRouter } from "next/navigation";
+import { useRouter as usePagesRouter } from "next/compat/router";
+import { useMemo } from "react";
+import { TableStateStore } from "./types";
+
+/**
+ * 何も購読しない購読関数（再購読を避けるためモジュールで共有する）
+ */
+const noopSubscribe = () => () => {};
+
+/**
+ * Next.jsのルーターを通してURLに状態を保存するストアを取得するフック
+ *
+ * Next.jsに依存するため、Next.jsのエントリーポイント（`createTable`）からのみ読み込みます。
+ * Pages Routerの静的に最適化されたページでは、ルーターの準備ができるまでクエリパラメータが空になるため、
+ * `router.isReady`を読み込めたかどうかとして返します。
+ *
+ * @returns URLストア
+ */
+export const useUrlStore = (): TableStateStore => {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  // App Routerの場合はnull
+  const pagesRouter = usePagesRouter();
+  const isReady = pagesRouter?.isReady ?? true;
+
+  return useMemo(
+    () => ({
+      getSearchParams: () => searchParams,
+      isReady: () => isReady,
+      setSearchParams: (newParams, options) => {
+        if (options?.replace) {
+          router.replace(`?${newParams.toString()}`);
+        } else {
+          router.push(`?${newParams.toString()}`);
+        }
+      },
+      // searchParamsの変更はNext.jsが再レンダリングで通知する
+      subscribe: noopSubscribe,
+    }),
+    [searchParams, router, isReady]
+  );
+};
@@ -1,54 +1,31 @@
-import { useSearchParams, useRouter } from "next/navigation";
-import { useMemo } from "react";
-import { TableOptions } from "./types";
+import { useMemo, useSyncExternalStore } from "react";
+import { TableOptions, TableStateStore } from "./types";
 import { getQueryKeys } from "./parseTableState";
 
 /**
- * テーブルのクエリパラメータ操作フック
+ * テーブルのクエリパラメータを購読するフック
  *
+ * クエリパラメータの書き込みはテーブルごとに共有するライター（`createQueryParamsWriter`）が行います。
+ *
+ * @param store ストア
  * @param options テーブルのオプション
- * @returns クエリパラメータの操作メソッド
+ * @returns 現在のクエリパラメータとクエリパラメータのキー
  */
-export const useQueryParams = (options?: TableOptions) => {
-  const searchParams = useSearchParams();
-  const router = useRouter();
+export const useQueryParams = (
+  store: TableStateStore,
+  options?: TableOptions
+) => {
+  const searchParams = useSyncExternalStore(
+    store.subscribe,
+    store.getSearchParams,
+    store.getServerSearchParams ?? store.getSearchParams
+  );
 
   // クエリパラメータキーを生成
   const queryKeys = useMemo(() => getQueryKeys(options), [options]);
 
-  /**
-   * クエリパラメータを更新する
-   *
-   * @param updates クエリパラメータの更新内容
-   * @param resetPage ページをリセットするかどうか
-   */
-  const updateQueryParams = (
-    updates: Record<string, string | null>,
-    resetPage = false
-  ) => {
-    const newParams = new URLSearchParams(searchParams);
-
-    // 更新内容を適用
-    Object.entries(updates).forEach(([key, value]) => {
-      if (value === null) {
-        newParams.delete(key);
-      } else {
-        newParams.set(key, value);
-      }
-    });
-
-    // ページをリセットする場合
-    if (resetPage) {
-      newParams.delete(queryKeys.page);
-    }
-
-    // ページを更新
-    router.push(`?${newParams.toString()}`);
-  };
-
   return {
     searchParams,
     queryKeys,
-    updateQueryParams,
   };
 };
@@ -1,25 +1,141 @@
-import { useMemo } from "react";
-import { ColumnDefinition, TableState, TableOptions } from "./types";
+import { useEffect, useMemo, useSyncExternalStore } from "react";
+import {
+  ColumnDefinition,
+  TableDiagnostics,
+  TableState,
+  TableOptions,
+  TableStateStore,
+  TablePreferences,
+  TablePreferenceStore,
+  PaginationMode,
+} from "./types";
 import { useQueryParams } from "./useQueryParams";
-import { parseTableState } from "./parseTableState";
+import { QueryParamsWriter } from "./queryParamsWriter";
+import { parseTableStateWithDiagnostics } from "./parseTableState";
+import { applyTablePreferences } from "./tablePreferences";
+import { parseColumnWidths } from "./columnWidths";
+import { emptyRowSelection } from "./rowSelection";
+import { emptyExpandedRowIds, mergeExpandedRowIds } from "./rowExpansion";
+import { TableLocalStores } from "./tableActions";
+
+/**
+ * テーブルごとに最後に報告した問題（同じテーブルの複数のフックから重複して報告しないため）
+ */
+const reportedIssues = new WeakMap<TableOptions, string>();
+
+/**
+ * 設定を保存しない場合の購読関数と設定（再購読を避けるためモジュールで共有する）
+ */
+const noopSubscribe = () => () => {};
+const emptyPreferences: TablePreferences = {};
+const getEmptyPreferences = () => emptyPreferences;
 
 /**
  * テーブルの状態を管理するフック
  *
+ * URLのクエリパラメータに問題がある場合は`options.onInvalidState`を呼びます。
+ * URLのクエリパラメータにない状態は、保存したユーザーの設定で補います。
+ * 列の幅と行の選択、展開した行はURLに保存しないため、それぞれのストアから読みます。
+ *
  * @param columnDefinitions カラム定義配列
+ * @param store ストア
+ * @param preferenceStore ユーザーの設定のストア
+ * @param localStores URLに保存しない状態のストア
+ * @param writer クエリパラメータのライター
  * @param options テーブルのオプション
- * @returns テーブルの状態
+ * @returns テーブルの状態と診断情報
  */
-export const useTableState = <Columns extends readonly ColumnDefinition[]>(
+export const useTableState = <
+  Columns extends readonly ColumnDefinition[],
+  Mode extends PaginationMode = "offset"
+>(
   columnDefinitions: Columns,
-  options?: TableOptions
-) => {
-  const { searchParams, queryKeys } = useQueryParams(options);
+  store: TableStateStore,
+  preferenceStore: TablePreferenceStore | null,
+  localStores: TableLocalStores,
+  writer: QueryParamsWriter,
+  options?: TableOptions<Mode>
+): { state: TableState<Columns, Mode>; diagnostics: TableDiagnostics } => {
+  const { searchParams, queryKeys } = useQueryParams(store, options);
+  const preferences = useSyncExternalStore(
+    preferenceStore?.subscribe ?? noopSubscribe,
+    preferenceStore?.getPreferences ?? getEmptyPreferences,
+    getEmptyPreferences
+  );
+  const { columnWidthStore, selectionStore, expansionStore } = localStores;
+  const storedColumnWidths = useSyncExternalStore(
+    columnWidthStore.subscribe,
+    () => columnWidthStore.getPreferences().columnWidths,
+    () => undefined
+  );
+  const selection = useSyncExternalStore(
+    selectionStore.subscribe,
+    selectionStore.getSelection,
+    () => emptyRowSelection
+  );
+  const localExpandedRowIds = useSyncExternalStore(
+    expansionStore.subscribe,
+    expansionStore.getExpandedRowIds,
+    () => emptyExpandedRowIds
+  );
+
+  // テーブルの状態をURLパラメータと保存した設定から作成
+  const { state, issues, fixes } = useMemo(() => {
+    return parseTableStateWithDiagnostics(
+      applyTablePreferences(
+        searchParams,
+        preferences,
+        queryKeys,
+        columnDefinitions,
+        options
+      ),
+      queryKeys,
+      columnDefinitions,
+      options
+    );
+  }, [searchParams, preferences, queryKeys, columnDefinitions, options]);
+
+  // 問題を報告
+  useEffect(() => {
+    const onInvalidState = options?.onInvalidState;
+    if (!options || !onInvalidState) return;
+
+    if (issues.length === 0) {
+      reportedIssues.delete(options);
+      return;
+    }
+
+    const reportKey = JSON.stringify(issues);
+    if (reportedIssues.get(options) === reportKey) return;
+    reportedIssues.set(options, reportKey);
+
+    onInvalidState(issues, {
+      // 問題のあるクエリパラメータのみを正規化し、履歴は追加しない
+      canonicalize: () => writer.update(fixes, false, true),
+    });
+  }, [issues, fixes, options, writer]);
+
+  const diagnostics = useMemo(() => ({ issues }), [issues]);
 
-  // テーブルの状態をURLパラメータから作成
-  const tableState = useMemo<TableState<Columns>>(() => {
-    return parseTableState(searchParams, queryKeys, columnDefinitions);
-  }, [searchParams, queryKeys, columnDefinitions]);
+  // 保存した列の幅と行の選択、展開した行で補う
+  const stateWithLocalState = useMemo(
+    () => ({
+      ...state,
+      columnWidths: parseColumnWidths(columnDefinitions, storedColumnWidths),
+      selection,
+      expandedRowIds: mergeExpandedRowIds(
+        localExpandedRowIds,
+        state.expandedRowIds
+      ),
+    }),
+    [
+      state,
+      columnDefinitions,
+      storedColumnWidths,
+      selection,
+      localExpandedRowIds,
+    ]
+  );
 
-  return tableState;
+  return { state: stateWithLocalState, diagnostics };
 };
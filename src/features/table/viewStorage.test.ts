@@ -0,0 +1,65 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  createLocalStorageViewStorage,
+  createMemoryViewStorage,
+} from "./viewStorage";
+
+const view = {
+  id: "1",
+  name: "ビュー",
+  params: "table_sort=name%3Aasc",
+  isDefault: false,
+};
+
+describe("createMemoryViewStorage", () => {
+  it("書き込んだビューを返し、購読者に通知する", () => {
+    const storage = createMemoryViewStorage();
+    const onChange = vi.fn();
+    storage.subscribe(onChange);
+
+    storage.setViews([view]);
+
+    expect(storage.getViews()).toEqual([view]);
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createLocalStorageViewStorage", () => {
+  const stubLocalStorage = (initial: Record<string, string> = {}) => {
+    const items = new Map(Object.entries(initial));
+    vi.stubGlobal("window", {
+      localStorage: {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+      },
+      addEventListener: vi.fn(),
+      removeEventListener: vi.fn(),
+    });
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("書き込んだビューを返し、変更がない限り同じインスタンスを返す", () => {
+    stubLocalStorage();
+    const storage = createLocalStorageViewStorage("views");
+
+    storage.setViews([view]);
+
+    expect(storage.getViews()).toEqual([view]);
+    expect(storage.getViews()).toBe(storage.getViews());
+  });
+
+  it("保存した値が壊れている場合は空の配列を返す", () => {
+    stubLocalStorage({ views: "{broken" });
+    expect(createLocalStorageViewStorage("views").getViews()).toEqual([]);
+
+    stubLocalStorage({ views: JSON.stringify([{ id: 1 }]) });
+    expect(createLocalStorageViewStorage("views").getViews()).toEqual([]);
+  });
+
+  it("サーバー上では空の配列を返す", () => {
+    expect(createLocalStorageViewStorage("views").getViews()).toEqual([]);
+  });
+});
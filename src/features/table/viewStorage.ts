@@ -0,0 +1,118 @@
+import * as v from "valibot";
+import { StoredTableView, TableViewStorage } from "./types";
+
+/**
+ * ストレージに保存したビューのスキーマ
+ */
+const StoredTableViewsSchema = v.array(
+  v.object({
+    id: v.string(),
+    name: v.string(),
+    params: v.string(),
+    isDefault: v.boolean(),
+  })
+);
+
+/**
+ * 保存したビューがない場合の値（インスタンスを共有する）
+ */
+const emptyViews: readonly StoredTableView[] = [];
+
+/**
+ * メモリ上にビューを保存するストレージを作成する
+ *
+ * @param initial 初期のビュー
+ * @returns メモリストレージ
+ */
+export const createMemoryViewStorage = (
+  initial: readonly StoredTableView[] = emptyViews
+): TableViewStorage => {
+  let views = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getViews: () => views,
+    setViews: (newViews) => {
+      views = newViews;
+      listeners.forEach((listener) => listener());
+    },
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      return () => {
+        listeners.delete(onChange);
+      };
+    },
+  };
+};
+
+/**
+ * `localStorage`にビューを保存するストレージを作成する
+ *
+ * 保存した値が壊れている場合は、ビューが保存されていないものとして扱います。
+ * サーバー上では常に空の配列を返します。
+ *
+ * @param key `localStorage`のキー
+ * @returns localStorageストレージ
+ */
+export const createLocalStorageViewStorage = (
+  key: string
+): TableViewStorage => {
+  const listeners = new Set<() => void>();
+  let cache: { raw: string | null; views: readonly StoredTableView[] } | null =
+    null;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  /**
+   * ほかのタブでの変更を通知する
+   */
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === key || event.key === null) notify();
+  };
+
+  return {
+    getViews: () => {
+      if (typeof window === "undefined") return emptyViews;
+
+      // 保存した値が変わったときだけ解析し直す
+      const raw = window.localStorage.getItem(key);
+      if (cache?.raw !== raw) {
+        cache = { raw, views: parseStoredViews(raw) };
+      }
+      return cache.views;
+    },
+    setViews: (views) => {
+      window.localStorage.setItem(key, JSON.stringify(views));
+      notify();
+    },
+    subscribe: (onChange) => {
+      listeners.add(onChange);
+      if (listeners.size === 1) {
+        window.addEventListener("storage", onStorage);
+      }
+      return () => {
+        listeners.delete(onChange);
+        if (listeners.size === 0) {
+          window.removeEventListener("storage", onStorage);
+        }
+      };
+    },
+  };
+};
+
+/**
+ * ストレージに保存した値からビューを解析する
+ *
+ * @param raw 保存した値
+ * @returns ビューの配列（値がない場合や壊れている場合は空の配列）
+ */
+const parseStoredViews = (raw: string | null): readonly StoredTableView[] => {
+  if (raw === null) return emptyViews;
+
+  try {
+    const result = v.safeParse(StoredTableViewsSchema, JSON.parse(raw));
+    return result.success ? result.output : emptyViews;
+  } catch {
+    return emptyViews;
+  }
+};